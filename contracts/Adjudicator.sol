@@ -133,7 +133,7 @@ contract Adjudicator {
         require(actorIdx < params.participants.length, "actorIdx out of range");
         requireValidParams(params, state);
         require(dispute.stateHash == hashState(stateOld), "wrong old state");
-        require(Sig.verify(Channel.encodeState(state), sig, params.participants[actorIdx]), "invalid signature");
+        require(Channel.verifySignature(state, sig, params.participants[actorIdx]), "invalid signature");
         requireValidTransition(params, stateOld, state, actorIdx);
 
         storeChallenge(params, state, DisputePhase.FORCEEXEC);
@@ -36,8 +36,14 @@ abstract contract AssetHolder {
         address participant; // The account used to sign the authorization which is debited.
         address payable receiver; // The receiver of the authorization.
         uint256 amount; // The amount that can be withdrawn.
+        uint256 nonce; // The number of previous withdrawals of the participant from the channel.
+        uint256 fee; // The part of the amount that is paid to the relayer.
+        address payable relayer; // The receiver of the fee, e.g. the relayer that submits the authorization.
     }
 
+    bytes32 internal constant WITHDRAWAL_AUTH_TYPEHASH = keccak256(
+        "WithdrawalAuth(bytes32 channelID,address participant,address receiver,uint256 amount,uint256 nonce,uint256 fee,address relayer)");
+
     event OutcomeSet(bytes32 indexed channelID);
     event Deposited(bytes32 indexed fundingID, uint256 amount);
     event Withdrawn(bytes32 indexed fundingID, uint256 amount, address receiver);
@@ -48,6 +54,15 @@ abstract contract AssetHolder {
      */
     mapping(bytes32 => uint256) public holdings;
 
+    /**
+     * @notice This mapping stores the number of withdrawals of participants
+     * to their fundingID.
+     * @dev Mapping H(channelID||participant) => nonce
+     * A withdrawal authorization is only valid for the current nonce so that
+     * it cannot be replayed.
+     */
+    mapping(bytes32 => uint256) public withdrawalNonces;
+
     /**
      * @notice This mapping stores whether a channel was already settled.
      * @dev Mapping channelID => settled
@@ -144,22 +159,54 @@ abstract contract AssetHolder {
      * Requires that:
      *  - Channel is settled
      *  - Signature is valid
+     *  - The nonce of the authorization is the participant's current withdrawal nonce
+     *  - The fee does not exceed the amount
      *  - Enough holdings are available
      *  - `withdrawCheck` does not revert
      *  - `withdrawEnact` does not revert
-     * Decreases the holdings for the participant.
+     * Decreases the holdings and increments the withdrawal nonce for the participant.
+     * The receiver gets the amount minus the fee, which is paid to the relayer
+     * of the authorization.
      * Emits a `Withdrawn` event upon success.
      * @param authorization WithdrawalAuth that specifies which account receives
      * what amounf of asset from which channel participant.
      * @param signature Signature on the withdrawal authorization.
      */
     function withdraw(WithdrawalAuth calldata authorization, bytes calldata signature) external {
+        performWithdrawal(authorization, signature);
+    }
+
+    /**
+     * @notice Performs multiple withdrawals in one transaction, e.g. of all
+     * participants of a channel.
+     * @dev Every withdrawal is checked like in `withdraw`. If any withdrawal
+     * fails, the whole batch reverts. Withdrawals are performed in order, so
+     * authorizations of the same participant must have consecutive nonces
+     * and revert the batch if they exceed its holdings in sum.
+     * Emits a `Withdrawn` event per withdrawal.
+     * @param authorizations The withdrawal authorizations.
+     * @param signatures The signatures on the authorizations in the same order.
+     */
+    function withdrawBatch(WithdrawalAuth[] calldata authorizations, bytes[] calldata signatures) external {
+        require(authorizations.length == signatures.length, "signatures length mismatch");
+        for (uint256 i = 0; i < authorizations.length; i++) {
+            performWithdrawal(authorizations[i], signatures[i]);
+        }
+    }
+
+    /**
+     * @dev Performs a single withdrawal of `withdraw` or `withdrawBatch`.
+     */
+    function performWithdrawal(WithdrawalAuth calldata authorization, bytes calldata signature) internal {
         require(settled[authorization.channelID], "channel not settled");
-        require(Sig.verify(abi.encode(authorization), signature, authorization.participant), "signature verification failed");
+        require(verifyAuthorization(authorization, signature), "signature verification failed");
         bytes32 id = calcFundingID(authorization.channelID, authorization.participant);
+        require(authorization.nonce == withdrawalNonces[id], "invalid withdrawal nonce");
+        require(authorization.fee <= authorization.amount, "fee exceeds amount");
         require(holdings[id] >= authorization.amount, "insufficient ETH for withdrawal");
         withdrawCheck(authorization, signature);
         holdings[id] = holdings[id].sub(authorization.amount);
+        withdrawalNonces[id] = withdrawalNonces[id].add(1);
         withdrawEnact(authorization, signature);
         emit Withdrawn(id, authorization.amount, authorization.receiver);
     }
@@ -204,6 +251,30 @@ abstract contract AssetHolder {
     function withdrawEnact(WithdrawalAuth calldata authorization, bytes calldata signature) internal virtual
     {} // solhint-disable no-empty-blocks
 
+    /**
+     * @notice Checks whether the participant signed the authorization either
+     * on its ABI encoding or as EIP-712 typed data.
+     * @param authorization The withdrawal authorization.
+     * @param signature Signature on the withdrawal authorization.
+     */
+    function verifyAuthorization(WithdrawalAuth calldata authorization, bytes calldata signature)
+    internal view returns (bool)
+    {
+        if (Sig.verify(abi.encode(authorization), signature, authorization.participant)) {
+            return true;
+        }
+        bytes32 structHash = keccak256(abi.encode(
+            WITHDRAWAL_AUTH_TYPEHASH,
+            authorization.channelID,
+            authorization.participant,
+            authorization.receiver,
+            authorization.amount,
+            authorization.nonce,
+            authorization.fee,
+            authorization.relayer));
+        return Sig.verifyTypedData(structHash, signature, authorization.participant);
+    }
+
     /**
      * @notice Internal helper function that calculates the fundingID.
      * @param channelID ID of the channel.
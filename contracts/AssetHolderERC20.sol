@@ -57,11 +57,14 @@ contract AssetHolderERC20 is AssetHolder {
 	/**
      * @notice Should not be called directly but only by the parent AssetHolder.
      * @dev Withdraws tokens for channel participant authorization.participant
-	 * to authorization.receiver.
+	 * to authorization.receiver and pays the fee to authorization.relayer.
      * @param authorization Withdrawal Authorization to authorize token transer
      * from a channel participant to an on-chain receiver.
      */
     function withdrawEnact(WithdrawalAuth calldata authorization, bytes calldata) internal override {
-		require(token.transfer(authorization.receiver, authorization.amount), "transfer failed");
+		require(token.transfer(authorization.receiver, authorization.amount.sub(authorization.fee)), "transfer failed");
+		if (authorization.fee > 0) {
+			require(token.transfer(authorization.relayer, authorization.fee), "transfer failed");
+		}
 	}
 }
@@ -47,11 +47,14 @@ contract AssetHolderETH is AssetHolder {
     /**
      * @notice Should not be called directly but only by the parent AssetHolder.
      * @dev Withdraws ethereum for channel participant authorization.participant
-     * to authorization.receiver.
+     * to authorization.receiver and pays the fee to authorization.relayer.
      * @param authorization Withdrawal Authorization to authorize token transer
      * from a channel participant to an on-chain receiver.
      */
     function withdrawEnact(WithdrawalAuth calldata authorization, bytes calldata) internal override {
-        authorization.receiver.transfer(authorization.amount);
+        authorization.receiver.transfer(authorization.amount.sub(authorization.fee));
+        if (authorization.fee > 0) {
+            authorization.relayer.transfer(authorization.fee);
+        }
     }
 }
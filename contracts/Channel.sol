@@ -49,6 +49,16 @@ library Channel {
         uint256[] balances;
     }
 
+    bytes32 internal constant SUBALLOC_TYPEHASH = keccak256(
+        "SubAlloc(bytes32 ID,uint256[] balances)");
+    bytes32 internal constant ALLOCATION_TYPEHASH = keccak256(
+        "Allocation(address[] assets,uint256[][] balances,SubAlloc[] locked)"
+        "SubAlloc(bytes32 ID,uint256[] balances)");
+    bytes32 internal constant STATE_TYPEHASH = keccak256(
+        "State(bytes32 channelID,uint64 version,Allocation outcome,bytes appData,bool isFinal)"
+        "Allocation(address[] assets,uint256[][] balances,SubAlloc[] locked)"
+        "SubAlloc(bytes32 ID,uint256[] balances)");
+
     /**
      * @notice Checks that `sigs` contains all signatures on the state
      * from the channel participants. Reverts otherwise.
@@ -61,15 +71,40 @@ library Channel {
         Params memory params,
         State memory state,
         bytes[] memory sigs)
-    internal pure
+    internal view
     {
         bytes memory encodedState = encodeState(state);
         require(params.participants.length == sigs.length, "signatures length mismatch");
+        bytes32 typedHash;
         for (uint256 i = 0; i < sigs.length; i++) {
-            require(Sig.verify(encodedState, sigs[i], params.participants[i]), "invalid signature");
+            if (Sig.verify(encodedState, sigs[i], params.participants[i])) {
+                continue;
+            }
+            // Only hash the typed state if an EIP-712 signature is present.
+            if (typedHash == bytes32(0)) {
+                typedHash = hashTypedState(state);
+            }
+            require(Sig.verifyTypedData(typedHash, sigs[i], params.participants[i]), "invalid signature");
         }
     }
 
+    /**
+     * @notice Checks whether `signer` signed the state either on its ABI
+     * encoding or as EIP-712 typed data.
+     * @param state The state of the state channel.
+     * @param sig The signature on the state.
+     * @param signer The expected signer.
+     */
+    function verifySignature(
+        State memory state,
+        bytes memory sig,
+        address signer)
+    internal view returns (bool)
+    {
+        return Sig.verify(encodeState(state), sig, signer)
+            || Sig.verifyTypedData(hashTypedState(state), sig, signer);
+    }
+
     function encodeParams(Params memory params) internal pure returns (bytes memory)  {
         return abi.encode(params);
     }
@@ -77,4 +112,42 @@ library Channel {
     function encodeState(State memory state) internal pure returns (bytes memory)  {
         return abi.encode(state);
     }
+
+    /**
+     * @notice Computes the EIP-712 struct hash of a state.
+     * @param state The state to hash.
+     * @return The struct hash of the state.
+     */
+    function hashTypedState(State memory state) internal pure returns (bytes32) {
+        return keccak256(abi.encode(
+            STATE_TYPEHASH,
+            state.channelID,
+            state.version,
+            hashTypedAllocation(state.outcome),
+            keccak256(state.appData),
+            state.isFinal));
+    }
+
+    function hashTypedAllocation(Allocation memory alloc) internal pure returns (bytes32) {
+        bytes32[] memory balances = new bytes32[](alloc.balances.length);
+        for (uint256 i = 0; i < balances.length; i++) {
+            balances[i] = keccak256(abi.encodePacked(alloc.balances[i]));
+        }
+        bytes32[] memory locked = new bytes32[](alloc.locked.length);
+        for (uint256 i = 0; i < locked.length; i++) {
+            locked[i] = hashTypedSubAlloc(alloc.locked[i]);
+        }
+        return keccak256(abi.encode(
+            ALLOCATION_TYPEHASH,
+            keccak256(abi.encodePacked(alloc.assets)),
+            keccak256(abi.encodePacked(balances)),
+            keccak256(abi.encodePacked(locked))));
+    }
+
+    function hashTypedSubAlloc(SubAlloc memory subAlloc) internal pure returns (bytes32) {
+        return keccak256(abi.encode(
+            SUBALLOC_TYPEHASH,
+            subAlloc.ID,
+            keccak256(abi.encodePacked(subAlloc.balances))));
+    }
 }
@@ -20,10 +20,33 @@ import "../vendor/openzeppelin-contracts/contracts/cryptography/ECDSA.sol";
 
 // Sig is a library to verify signatures.
 library Sig {
+    bytes32 internal constant DOMAIN_TYPEHASH = keccak256(
+        "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 internal constant DOMAIN_NAME_HASH = keccak256("Perun");
+    bytes32 internal constant DOMAIN_VERSION_HASH = keccak256("1");
+
     // Verify verifies whether a piece of data was signed correctly.
     function verify(bytes memory data, bytes memory signature, address signer) internal pure returns (bool) {
         bytes32 prefixedHash = ECDSA.toEthSignedMessageHash(keccak256(data));
         address recoveredAddr = ECDSA.recover(prefixedHash, signature);
         return recoveredAddr == signer;
     }
+
+    // verifyTypedData verifies whether an EIP-712 struct hash was signed
+    // correctly in the domain of the calling contract.
+    function verifyTypedData(bytes32 structHash, bytes memory signature, address signer) internal view returns (bool) {
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash));
+        address recoveredAddr = ECDSA.recover(digest, signature);
+        return recoveredAddr == signer;
+    }
+
+    // domainSeparator returns the EIP-712 domain separator of the calling
+    // contract on the current chain.
+    function domainSeparator() internal view returns (bytes32) {
+        uint256 chainID;
+        // solhint-disable-next-line no-inline-assembly
+        assembly { chainID := chainid() }
+        return keccak256(abi.encode(
+            DOMAIN_TYPEHASH, DOMAIN_NAME_HASH, DOMAIN_VERSION_HASH, chainID, address(this)));
+    }
 }
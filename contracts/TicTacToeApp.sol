@@ -0,0 +1,115 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// SPDX-License-Identifier: Apache-2.0
+
+pragma solidity ^0.7.0;
+pragma experimental ABIEncoderV2;
+
+import "./Channel.sol";
+import "./App.sol";
+
+/**
+ * @title A two-party tic-tac-toe App.
+ * @author The Perun Authors
+ * @dev The appData consists of 10 bytes. The first byte is the index of the
+ * participant that moves next, the other 9 bytes are the fields of the grid
+ * in row-major order. A field is 0 if it is empty and `idx + 1` if it is
+ * marked by participant `idx`.
+ * The winner receives the funds of all assets in the final state. On a draw,
+ * the balances stay unchanged.
+ */
+contract TicTacToeApp is App {
+    uint8 constant internal NUM_PARTS = 2;
+    uint256 constant internal DATA_LENGTH = 10;
+    uint8 constant internal NO_WINNER = 255;
+
+    /**
+     * @notice ValidTransition checks if there was a valid transition between two states.
+     * @param params The parameters of the channel.
+     * @param from The current state.
+     * @param to The potenrial next state.
+     * @param actorIdx Index of the actor who signed this transition.
+     */
+    function validTransition(
+        Channel.Params calldata params,
+        Channel.State calldata from,
+        Channel.State calldata to,
+        uint256 actorIdx)
+    external pure override
+    {
+        require(params.participants.length == NUM_PARTS, "number of participants must be 2");
+        require(from.appData.length == DATA_LENGTH, "invalid old appData length");
+        require(to.appData.length == DATA_LENGTH, "invalid new appData length");
+        require(uint8(from.appData[0]) == actorIdx, "actor not allowed to move");
+        require(uint8(to.appData[0]) == NUM_PARTS - 1 - actorIdx, "next actor must alternate");
+
+        uint256 changed = 0;
+        for (uint256 i = 1; i < DATA_LENGTH; i++) {
+            if (from.appData[i] != to.appData[i]) {
+                require(uint8(from.appData[i]) == 0, "field already marked");
+                require(uint8(to.appData[i]) == actorIdx + 1, "invalid mark");
+                changed++;
+            }
+        }
+        require(changed == 1, "exactly one field must be marked");
+
+        uint8 winner = winnerOf(to.appData);
+        if (winner == NO_WINNER && !isFull(to.appData)) {
+            require(!to.isFinal, "state must not be final");
+        } else {
+            require(to.isFinal, "state must be final");
+        }
+        for (uint256 i = 0; i < to.outcome.balances.length; i++) {
+            if (winner == NO_WINNER) {
+                for (uint256 k = 0; k < NUM_PARTS; k++) {
+                    require(to.outcome.balances[i][k] == from.outcome.balances[i][k], "balances must not change");
+                }
+            } else {
+                require(to.outcome.balances[i][NUM_PARTS - 1 - winner] == 0, "winner must receive all funds");
+            }
+        }
+    }
+
+    /**
+     * @dev Returns the index of the participant with three marks in a row or
+     * NO_WINNER.
+     */
+    function winnerOf(bytes calldata data) internal pure returns (uint8) {
+        uint8[3][8] memory lines = [
+            [1, 2, 3], [4, 5, 6], [7, 8, 9],
+            [1, 4, 7], [2, 5, 8], [3, 6, 9],
+            [1, 5, 9], [3, 5, 7]
+        ];
+        for (uint256 i = 0; i < lines.length; i++) {
+            uint8 mark = uint8(data[lines[i][0]]);
+            if (mark != 0 && mark == uint8(data[lines[i][1]]) && mark == uint8(data[lines[i][2]])) {
+                return mark - 1;
+            }
+        }
+        return NO_WINNER;
+    }
+
+    /**
+     * @dev Returns whether all fields are marked.
+     */
+    function isFull(bytes calldata data) internal pure returns (bool) {
+        for (uint256 i = 1; i < DATA_LENGTH; i++) {
+            if (uint8(data[i]) == 0) {
+                return false;
+            }
+        }
+        return true;
+    }
+}
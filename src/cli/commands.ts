@@ -0,0 +1,194 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// This file implements the commands of the `perun-eth` CLI. Every command
+// prints its result as JSON.
+
+/// <reference types="truffle-typings" />
+import * as fs from "fs";
+import Web3 from "web3";
+declare const web3: Web3;
+import { AdjudicatorContract } from "../../types/truffle-contracts";
+import { DisputePhase, Params, State } from "../test/Channel";
+import { currentTimestamp } from "../lib/web3";
+import { fundingID } from "../lib/test";
+import { AdjudicatorClient, registered } from "../lib/adjudicator";
+import { AssetHolderClient } from "../lib/assetholder";
+import { PrivateKeySigner, Signer, asSigner } from "../lib/signer";
+
+export const usage = `Usage: perun-eth <command> [options]
+
+Commands:
+  channel-id <channel.json>                         Compute the channel ID of the params.
+  dispute <adjudicator> <channelID>                 Show the registered dispute of a channel.
+  register <adjudicator> <channel.json>             Register the signed state.
+  conclude <adjudicator> <channel.json>             Conclude the registered state and sub-states.
+  concludeFinal <adjudicator> <channel.json>        Conclude the signed final state.
+  holdings <assetholder> <fundingID>                Show the holdings of a funding ID.
+  holdings <assetholder> <channelID> <participant>  Show the holdings of a participant.
+  withdraw <assetholder> <channelID> <receiver> [amount]
+                                                    Withdraw the holdings of the participant.
+
+Options:
+  --from <address>  The account that sends transactions and signs withdrawals.
+                    Defaults to the first account of the node.
+
+The channel file is a JSON object with the fields "params", "state", "sigs"
+and, for conclude, "subStates" in the format of \`Params.serialize\` and
+\`State.serialize\`. A file with only the params is accepted by channel-id.
+Withdrawals are signed with the private key in PERUN_PRIVATE_KEY if set.`;
+
+// ChannelFile is the content of a channel file.
+export interface ChannelFile {
+  params: Params;
+  state?: State;
+  sigs: string[];
+  subStates: State[];
+}
+
+export function readChannelFile(file: string): ChannelFile {
+  const obj = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (obj.params === undefined) {
+    return { params: Params.deserialize(obj), sigs: [], subStates: [] };
+  }
+  return {
+    params: Params.deserialize(obj.params),
+    state: obj.state !== undefined ? State.deserialize(obj.state) : undefined,
+    sigs: obj.sigs !== undefined ? obj.sigs : [],
+    subStates: obj.subStates !== undefined ? obj.subStates.map(State.deserialize) : [],
+  };
+}
+
+// run executes the command given by `args` and prints its result via
+// `print`.
+export async function run(args: string[], print: (line: string) => void, env: NodeJS.ProcessEnv = process.env) {
+  const [positional, options] = parseArgs(args);
+  const [command, ...params] = positional;
+  // The accounts of the node are only queried by commands that send
+  // transactions. Read-only commands never use their sender.
+  const sender = async () => options.from !== undefined ? options.from : (await web3.eth.getAccounts())[0];
+  const readOnly = options.from !== undefined ? options.from : "";
+  const json = (obj: any) => print(JSON.stringify(obj, null, 2));
+
+  switch (command) {
+    case "channel-id": {
+      requireArgs(params, 1);
+      json({ channelID: readChannelFile(params[0]).params.channelID() });
+      return;
+    }
+    case "dispute": {
+      requireArgs(params, 2);
+      json(await showDispute(await adjudicator(params[0], readOnly), params[1]));
+      return;
+    }
+    case "register":
+    case "conclude":
+    case "concludeFinal": {
+      requireArgs(params, 2);
+      const client = await adjudicator(params[0], await sender());
+      const ch = readChannelFile(params[1]);
+      if (ch.state === undefined) {
+        throw new Error(`${params[1]} contains no state`);
+      }
+      const updates = command == "register" ? await client.register(ch.params, ch.state, ch.sigs)
+        : command == "conclude" ? await client.conclude(ch.params, ch.state, ch.subStates)
+        : await client.concludeFinal(ch.params, ch.state, ch.sigs);
+      json(updates.map(u => ({ ...u, phase: DisputePhase[u.phase] })));
+      return;
+    }
+    case "holdings": {
+      if (params.length != 2) {
+        requireArgs(params, 3);
+      }
+      const client = await AssetHolderClient.at(params[0], readOnly);
+      const id = params.length == 3 ? fundingID(params[1], params[2]) : params[1];
+      json({ fundingID: id, holdings: (await client.holdings(id)).toString() });
+      return;
+    }
+    case "withdraw": {
+      requireArgs(params, 3);
+      const from = await sender();
+      const client = await AssetHolderClient.at(params[0], from);
+      const signer: Signer = env.PERUN_PRIVATE_KEY !== undefined
+        ? new PrivateKeySigner(env.PERUN_PRIVATE_KEY) : asSigner(from);
+      const amount = params[3] !== undefined ? web3.utils.toBN(params[3]) : undefined;
+      const res = await client.withdraw(params[1], signer, params[2], amount);
+      json({ participant: signer.address, receiver: params[2], tx: res.tx });
+      return;
+    }
+    case undefined:
+    case "help": {
+      print(usage);
+      return;
+    }
+    default:
+      throw new Error(`unknown command ${command}\n\n${usage}`);
+  }
+}
+
+async function adjudicator(address: string, from: string): Promise<AdjudicatorClient> {
+  const Adjudicator = artifacts.require<AdjudicatorContract>("Adjudicator");
+  return new AdjudicatorClient(await Adjudicator.at(address), from);
+}
+
+// showDispute decodes the dispute of the channel together with the time at
+// which the channel can be concluded.
+async function showDispute(client: AdjudicatorClient, channelID: string): Promise<any> {
+  const dispute = await client.dispute(channelID);
+  if (!registered(dispute)) {
+    return { channelID: channelID, registered: false };
+  }
+  const now = await currentTimestamp();
+  // A channel with an app in phase DISPUTE must go through FORCEEXEC first.
+  let concludableAt: number | null = dispute.timeout;
+  if (dispute.phase == DisputePhase.DISPUTE && dispute.hasApp) {
+    concludableAt += dispute.challengeDuration;
+  } else if (dispute.phase == DisputePhase.CONCLUDED) {
+    concludableAt = null;
+  }
+  return {
+    channelID: channelID,
+    registered: true,
+    phase: DisputePhase[dispute.phase],
+    version: dispute.version,
+    hasApp: dispute.hasApp,
+    challengeDuration: dispute.challengeDuration,
+    timeout: dispute.timeout,
+    remaining: Math.max(0, dispute.timeout - now),
+    concludableAt: concludableAt,
+    stateHash: dispute.stateHash,
+  };
+}
+
+function parseArgs(args: string[]): [string[], { [name: string]: string }] {
+  let positional: string[] = [];
+  let options: { [name: string]: string } = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      if (i + 1 >= args.length) {
+        throw new Error(`missing value of option ${args[i]}`);
+      }
+      options[args[i].slice(2)] = args[++i];
+    } else {
+      positional.push(args[i]);
+    }
+  }
+  return [positional, options];
+}
+
+function requireArgs(params: string[], n: number) {
+  if (params.length < n) {
+    throw new Error(`missing arguments\n\n${usage}`);
+  }
+}
@@ -0,0 +1,46 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// perun-eth is run by `truffle exec`, which provides the connection to the
+// node, e.g.:
+//   truffle exec build/cli/perun-eth.js --network mainnet dispute <adjudicator> <channelID>
+
+/// <reference types="truffle-typings" />
+import Web3 from "web3";
+declare const web3: Web3;
+import { run } from "./commands";
+
+// The options of `truffle exec` that are not passed to the command.
+const truffleFlags = ["--compile"];
+const truffleOptions = ["--network", "--config"];
+
+function commandArgs(argv: string[]): string[] {
+  const script = argv.findIndex(arg => arg.endsWith("perun-eth.js"));
+  let args: string[] = [];
+  for (let i = script + 1; i < argv.length; i++) {
+    if (truffleOptions.includes(argv[i])) {
+      i++;
+    } else if (!truffleFlags.includes(argv[i])) {
+      args.push(argv[i]);
+    }
+  }
+  return args;
+}
+
+export = function (callback: (err?: any) => void) {
+  // `truffle exec` only provides `web3` and `artifacts` to this script, so
+  // they are made available to the library.
+  Object.assign(global, { web3: web3, artifacts: artifacts });
+  run(commandArgs(process.argv), console.log).then(() => callback(), callback);
+};
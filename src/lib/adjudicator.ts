@@ -0,0 +1,198 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/// <reference types="truffle-typings" />
+import Web3 from "web3";
+declare const web3: Web3;
+import { AbiInput, AbiItem } from "web3-utils";
+import { AdjudicatorContract, AdjudicatorInstance } from "../../types/truffle-contracts";
+import { DisputePhase, Params, State } from "../test/Channel";
+
+// ChannelUpdate is a decoded `ChannelUpdate` event of the Adjudicator.
+export interface ChannelUpdate {
+  channelID: string;
+  version: string;
+  phase: DisputePhase;
+  timeout: number;
+}
+
+// Dispute is a decoded entry of the Adjudicator's `disputes` mapping.
+export interface Dispute {
+  timeout: number;
+  challengeDuration: number;
+  version: string;
+  hasApp: boolean;
+  phase: DisputePhase;
+  stateHash: string;
+}
+
+const zeroHash = "0x0000000000000000000000000000000000000000000000000000000000000000";
+
+// registered returns whether the dispute belongs to a registered channel.
+export function registered(dispute: Dispute): boolean {
+  return dispute.stateHash != zeroHash;
+}
+
+// decodeChannelUpdates returns all `ChannelUpdate` events that were emitted
+// by the transaction in the order of emission.
+export function decodeChannelUpdates(res: Truffle.TransactionResponse): ChannelUpdate[] {
+  return res.logs
+    .filter(log => log.event == "ChannelUpdate")
+    .map(log => ({
+      channelID: log.args.channelID,
+      version: log.args.version.toString(),
+      phase: Number(log.args.phase) as DisputePhase,
+      timeout: Number(log.args.timeout),
+    }));
+}
+
+// decodeChannelUpdateEvent decodes a `ChannelUpdate` event as returned by
+// `getPastEvents`.
+export function decodeChannelUpdateEvent(ev: any): ChannelUpdate {
+  return {
+    channelID: ev.returnValues.channelID,
+    version: ev.returnValues.version.toString(),
+    phase: Number(ev.returnValues.phase) as DisputePhase,
+    timeout: Number(ev.returnValues.timeout),
+  };
+}
+
+// AdjudicatorCall is a decoded call of an Adjudicator method.
+export interface AdjudicatorCall {
+  method: "register" | "progress" | "conclude" | "concludeFinal";
+  params: Params;
+  state: State;
+  // The old state of a `progress` call.
+  stateOld?: State;
+  // The actor index of a `progress` call.
+  actorIdx?: number;
+  // The signatures of a `register` or `concludeFinal` call or the single
+  // signature of a `progress` call.
+  sigs: string[];
+  // The substates of a `conclude` call.
+  subStates: State[];
+}
+
+// AdjudicatorMethod is the ABI of a decodable method of the Adjudicator.
+interface AdjudicatorMethod extends AbiItem {
+  name: AdjudicatorCall["method"];
+  inputs: AbiInput[];
+}
+
+const decodableMethods: string[] = ["register", "progress", "conclude", "concludeFinal"];
+
+// adjudicatorMethods returns the ABI of the decodable methods from the
+// Adjudicator artifact so that it cannot diverge from the contract.
+function adjudicatorMethods(): AdjudicatorMethod[] {
+  const Adjudicator = artifacts.require<AdjudicatorContract>("Adjudicator") as AdjudicatorContract & { abi: AbiItem[] };
+  return Adjudicator.abi.filter((m): m is AdjudicatorMethod =>
+    m.type == "function" && decodableMethods.includes(m.name ?? ""));
+}
+
+// decodeAdjudicatorCall decodes the calldata of a transaction that called
+// `register`, `progress`, `conclude` or `concludeFinal` on the Adjudicator.
+export function decodeAdjudicatorCall(data: string): AdjudicatorCall {
+  const selector = data.slice(0, 10).toLowerCase();
+  const method = adjudicatorMethods().find(m => web3.eth.abi.encodeFunctionSignature(m) == selector);
+  if (method === undefined) {
+    throw new Error(`unknown Adjudicator method selector ${selector}`);
+  }
+  const args = web3.eth.abi.decodeParameters(method.inputs, "0x" + data.slice(10));
+  let call: AdjudicatorCall = {
+    method: method.name,
+    params: Params.deserialize(args.params),
+    state: State.deserialize(args.state),
+    sigs: [],
+    subStates: [],
+  };
+  switch (call.method) {
+    case "register":
+    case "concludeFinal":
+      call.sigs = args.sigs.slice();
+      break;
+    case "progress":
+      call.stateOld = State.deserialize(args.stateOld);
+      call.actorIdx = Number(args.actorIdx);
+      call.sigs = [args.sig];
+      break;
+    case "conclude":
+      call.subStates = args.subStates.map(State.deserialize);
+      break;
+  }
+  return call;
+}
+
+// AdjudicatorClient wraps an Adjudicator instance and sends all transactions
+// from a fixed account.
+export class AdjudicatorClient {
+  adj: AdjudicatorInstance;
+  from: string;
+
+  constructor(adj: AdjudicatorInstance, from: string) {
+    this.adj = adj;
+    this.from = from;
+  }
+
+  get address(): string {
+    return this.adj.address;
+  }
+
+  async register(params: Params, state: State, sigs: string[]): Promise<ChannelUpdate[]> {
+    const res = await this.adj.register(
+      params.serialize(), state.serialize(), sigs, { from: this.from });
+    return decodeChannelUpdates(res);
+  }
+
+  async progress(params: Params, stateOld: State, state: State, actorIdx: number, sig: string): Promise<ChannelUpdate[]> {
+    const res = await this.adj.progress(
+      params.serialize(), stateOld.serialize(), state.serialize(), actorIdx, sig, { from: this.from });
+    return decodeChannelUpdates(res);
+  }
+
+  // conclude expects the states of all sub-channels in depth-first order.
+  async conclude(params: Params, state: State, subStates: State[] = []): Promise<ChannelUpdate[]> {
+    const res = await this.adj.conclude(
+      params.serialize(), state.serialize(), subStates.map(s => s.serialize()), { from: this.from });
+    return decodeChannelUpdates(res);
+  }
+
+  async concludeFinal(params: Params, state: State, sigs: string[]): Promise<ChannelUpdate[]> {
+    const res = await this.adj.concludeFinal(
+      params.serialize(), state.serialize(), sigs, { from: this.from });
+    return decodeChannelUpdates(res);
+  }
+
+  // channelUpdates returns the `ChannelUpdate` events of the given channels
+  // that were emitted in the given block range.
+  async channelUpdates(channelIDs: string[], fromBlock: number, toBlock: number | "latest" = "latest"): Promise<ChannelUpdate[]> {
+    const events = await this.adj.contract.getPastEvents("ChannelUpdate", {
+      filter: { channelID: channelIDs },
+      fromBlock: fromBlock,
+      toBlock: toBlock,
+    });
+    return events.map(decodeChannelUpdateEvent);
+  }
+
+  async dispute(channelID: string): Promise<Dispute> {
+    const d = await this.adj.disputes.call(channelID);
+    return {
+      timeout: d[0].toNumber(),
+      challengeDuration: d[1].toNumber(),
+      version: d[2].toString(),
+      hasApp: d[3],
+      phase: d[4].toNumber() as DisputePhase,
+      stateHash: d[5],
+    };
+  }
+}
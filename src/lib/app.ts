@@ -0,0 +1,52 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { Params, State } from "../test/Channel";
+
+/**
+ * OffChainApp is the TypeScript twin of an on-chain `App`.
+ * Like `App.validTransition`, it only performs the app-specific checks.
+ */
+export interface OffChainApp {
+  // validTransition throws an error with the revert reason of the on-chain
+  // app if the transition is invalid.
+  validTransition(params: Params, from: State, to: State, actorIdx: number): void;
+}
+
+// AppRegistry maps the addresses of on-chain apps to their twins.
+export class AppRegistry {
+  private apps: Map<string, OffChainApp>;
+
+  constructor() {
+    this.apps = new Map();
+  }
+
+  register(address: string, app: OffChainApp) {
+    this.apps.set(address.toLowerCase(), app);
+  }
+
+  unregister(address: string) {
+    this.apps.delete(address.toLowerCase());
+  }
+
+  get(address: string): OffChainApp | undefined {
+    return this.apps.get(address.toLowerCase());
+  }
+}
+
+// OffChainTrivialApp is the twin of `TrivialApp`, which accepts every
+// transition.
+export class OffChainTrivialApp implements OffChainApp {
+  validTransition(_params: Params, _from: State, _to: State, _actorIdx: number) {}
+}
@@ -0,0 +1,182 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/// <reference types="truffle-typings" />
+import Web3 from "web3";
+declare const web3: Web3;
+import {
+  AssetHolderContract,
+  AssetHolderInstance,
+  AssetHolderERC20Contract,
+  IERC20Contract,
+  IERC20Instance,
+} from "../../types/truffle-contracts";
+import { Authorization } from "../test/Channel";
+import { Signer, asSigner } from "./signer";
+import { fundingID } from "./test";
+
+export enum AssetHolderType { ETH, ERC20 }
+
+// SignedAuthorization is a withdrawal authorization together with the
+// signature of its participant.
+export interface SignedAuthorization {
+  auth: Authorization;
+  sig: string;
+}
+
+// Fee is the fee of a withdrawal that is paid to the relayer that submits it.
+export interface Fee {
+  amount: BN;
+  relayer: string;
+}
+
+/**
+ * AssetHolderClient funds channels on an AssetHolderETH or AssetHolderERC20
+ * and withdraws from them. All transactions are sent from `from`.
+ */
+export class AssetHolderClient {
+  ah: AssetHolderInstance;
+  from: string;
+  // The token of an AssetHolderERC20, undefined for an AssetHolderETH.
+  token?: IERC20Instance;
+
+  constructor(ah: AssetHolderInstance, from: string, token?: IERC20Instance) {
+    this.ah = ah;
+    this.from = from;
+    this.token = token;
+  }
+
+  // at returns a client for the AssetHolder at `address` and detects
+  // whether it holds ETH or an ERC20 token.
+  static async at(address: string, from: string): Promise<AssetHolderClient> {
+    const AssetHolder = artifacts.require<AssetHolderContract>("AssetHolder");
+    const AssetHolderERC20 = artifacts.require<AssetHolderERC20Contract>("AssetHolderERC20");
+    const IERC20 = artifacts.require<IERC20Contract>("IERC20");
+    const ah = await AssetHolder.at(address);
+    let token: string;
+    try {
+      // Only an AssetHolderERC20 has the `token` getter.
+      token = await (await AssetHolderERC20.at(address)).token.call();
+    } catch (_) {
+      return new AssetHolderClient(ah, from);
+    }
+    return new AssetHolderClient(ah, from, await IERC20.at(token));
+  }
+
+  get address(): string {
+    return this.ah.address;
+  }
+
+  get type(): AssetHolderType {
+    return this.token === undefined ? AssetHolderType.ETH : AssetHolderType.ERC20;
+  }
+
+  fundingID(channelID: string, participant: string): string {
+    return fundingID(channelID, participant);
+  }
+
+  // deposit deposits `amount` for the funding ID. For an AssetHolderERC20,
+  // the AssetHolder is approved to transfer the tokens first.
+  async deposit(fundingID: string, amount: BN): Promise<Truffle.TransactionResponse> {
+    if (this.token === undefined) {
+      return this.ah.deposit(fundingID, amount, { value: amount, from: this.from });
+    }
+    await this.token.approve(this.address, amount, { from: this.from });
+    return this.ah.deposit(fundingID, amount, { from: this.from });
+  }
+
+  // fund deposits `amount` for `participant` in the channel.
+  async fund(channelID: string, participant: string, amount: BN): Promise<Truffle.TransactionResponse> {
+    return this.deposit(this.fundingID(channelID, participant), amount);
+  }
+
+  async holdings(fundingID: string): Promise<BN> {
+    return this.ah.holdings.call(fundingID);
+  }
+
+  // withdrawalNonce returns the nonce that the next withdrawal authorization
+  // of the funding ID must have.
+  async withdrawalNonce(fundingID: string): Promise<BN> {
+    return this.ah.withdrawalNonces.call(fundingID);
+  }
+
+  async settled(channelID: string): Promise<boolean> {
+    return this.ah.settled.call(channelID);
+  }
+
+  // balanceOf returns the ETH or token balance of `who`.
+  async balanceOf(who: string): Promise<BN> {
+    if (this.token === undefined) {
+      return web3.utils.toBN(await web3.eth.getBalance(who));
+    }
+    return this.token.balanceOf.call(who);
+  }
+
+  // authorize signs the withdrawal of `amount` from the holdings of the
+  // participant in the channel to `receiver` with the participant's current
+  // withdrawal nonce. By default, all holdings are withdrawn. The fee is paid
+  // from the amount to its relayer.
+  async authorize(
+    channelID: string,
+    participant: string | Signer,
+    receiver: string,
+    amount?: BN,
+    fee?: Fee): Promise<SignedAuthorization>
+  {
+    const signer = asSigner(participant);
+    const id = this.fundingID(channelID, signer.address);
+    if (amount === undefined) {
+      amount = await this.holdings(id);
+    }
+    const nonce = await this.withdrawalNonce(id);
+    const auth = fee === undefined
+      ? new Authorization(channelID, signer.address, receiver, amount.toString(), nonce.toString())
+      : new Authorization(channelID, signer.address, receiver, amount.toString(), nonce.toString(),
+        fee.amount.toString(), fee.relayer);
+    return { auth: auth, sig: await auth.sign(signer) };
+  }
+
+  // withdraw builds a withdrawal authorization for the participant, signs it
+  // with `participant` and submits it. The whole holding of the participant
+  // is withdrawn if `amount` is not given.
+  async withdraw(
+    channelID: string,
+    participant: string | Signer,
+    receiver: string,
+    amount?: BN): Promise<Truffle.TransactionResponse>
+  {
+    const { auth, sig } = await this.authorize(channelID, participant, receiver, amount);
+    return this.ah.withdraw(auth, sig, { from: this.from });
+  }
+
+  // withdrawBatch submits the authorizations in a single transaction, which
+  // reverts if any of the withdrawals fails.
+  async withdrawBatch(auths: SignedAuthorization[]): Promise<Truffle.TransactionResponse> {
+    return this.ah.withdrawBatch(auths.map(a => a.auth), auths.map(a => a.sig), { from: this.from });
+  }
+
+  // withdrawAll withdraws the holdings of all participants in the channel to
+  // the participants themselves in a single transaction. Every participant
+  // may only be given once because its whole holding is withdrawn.
+  async withdrawAll(channelID: string, participants: (string | Signer)[]): Promise<Truffle.TransactionResponse> {
+    const signers = participants.map(asSigner);
+    const addresses = signers.map(signer => signer.address.toLowerCase());
+    const duplicate = addresses.find((address, i) => addresses.indexOf(address) != i);
+    if (duplicate !== undefined) {
+      throw new Error(`duplicate participant ${duplicate}`);
+    }
+    const auths = await Promise.all(signers.map(signer => this.authorize(channelID, signer, signer.address)));
+    return this.withdrawBatch(auths);
+  }
+}
@@ -0,0 +1,137 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import Web3 from "web3";
+declare const web3: Web3;
+import { Channel, Params, State, Allocation, SubAlloc } from "../test/Channel";
+
+const zeroAddress = "0x0000000000000000000000000000000000000000";
+
+// Balance is a balance as accepted by the builder.
+export type Balance = BN | string | number;
+
+/**
+ * ChannelBuilder builds the parameters and a state of a channel with any
+ * number of participants and assets.
+ *
+ * Example:
+ *   const ch = new ChannelBuilder()
+ *     .participants([alice, bob, carol])
+ *     .asset(ethHolder, [ether(1), ether(2), ether(3)])
+ *     .challengeDuration(60)
+ *     .build();
+ *
+ * The shape of the outcome is validated by `build`, which throws if the
+ * Adjudicator would reject the state.
+ */
+export class ChannelBuilder {
+  private _participants: string[] = [];
+  private _app: string = zeroAddress;
+  private _challengeDuration: number = 60;
+  private _nonce?: string;
+  private _assets: string[] = [];
+  private _balances: string[][] = [];
+  private _locked: SubAlloc[] = [];
+  private _appData: string = "0x00";
+  private _version: string = "0";
+  private _isFinal: boolean = false;
+
+  participants(parts: string[]): ChannelBuilder {
+    this._participants = parts.slice();
+    return this;
+  }
+
+  app(app: string): ChannelBuilder {
+    this._app = app;
+    return this;
+  }
+
+  challengeDuration(duration: number): ChannelBuilder {
+    this._challengeDuration = duration;
+    return this;
+  }
+
+  // nonce sets the nonce of the channel. A random 32 byte nonce is
+  // generated by `build` if none is set.
+  nonce(nonce: string): ChannelBuilder {
+    this._nonce = nonce;
+    return this;
+  }
+
+  // asset adds an asset with the balances of the participants in the order
+  // of `participants`.
+  asset(asset: string, balances: Balance[]): ChannelBuilder {
+    this._assets.push(asset);
+    this._balances.push(balances.map(bal => bal.toString()));
+    return this;
+  }
+
+  // subAlloc adds a sub-allocation with the balances of every asset in the
+  // order in which the assets were added.
+  subAlloc(channelID: string, balances: Balance[]): ChannelBuilder {
+    this._locked.push(new SubAlloc(channelID, balances.map(bal => bal.toString())));
+    return this;
+  }
+
+  appData(data: string): ChannelBuilder {
+    this._appData = data;
+    return this;
+  }
+
+  version(version: string | number): ChannelBuilder {
+    this._version = version.toString();
+    return this;
+  }
+
+  final(isFinal: boolean = true): ChannelBuilder {
+    this._isFinal = isFinal;
+    return this;
+  }
+
+  // build validates the channel and returns its parameters and state.
+  build(): Channel {
+    this.validate();
+    const nonce = this._nonce !== undefined ? this._nonce : web3.utils.randomHex(32);
+    const params = new Params(this._app, this._challengeDuration, nonce, this._participants.slice());
+    const outcome = new Allocation(
+      this._assets.slice(),
+      this._balances.map(bals => bals.slice()),
+      this._locked.map(sub => new SubAlloc(sub.ID, sub.balances.slice())));
+    const state = new State(params.channelID(), this._version, outcome, this._appData, this._isFinal);
+    return new Channel(params, state);
+  }
+
+  private validate() {
+    const numParts = this._participants.length;
+    if (numParts == 0) {
+      throw new Error("channel must have participants");
+    }
+    if (this._assets.length == 0) {
+      throw new Error("channel must have assets");
+    }
+    this._balances.forEach((bals, i) => {
+      if (bals.length != numParts) {
+        throw new Error(`asset ${i} has ${bals.length} balances for ${numParts} participants`);
+      }
+    });
+    this._locked.forEach(sub => {
+      if (sub.balances.length != this._assets.length) {
+        throw new Error(`sub-allocation ${sub.ID} has ${sub.balances.length} balances for ${this._assets.length} assets`);
+      }
+    });
+    if (this._isFinal && this._locked.length != 0) {
+      throw new Error("final state cannot have sub-allocations");
+    }
+  }
+}
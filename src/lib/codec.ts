@@ -0,0 +1,90 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// This file implements codecs for the appData of channel states. The appData
+// of an app is the ABI encoding of a tuple, so that the app contract can
+// decode it with `abi.decode(state.appData, (Data))`.
+
+import Web3 from "web3";
+declare const web3: Web3;
+import { AbiItem } from "web3-utils";
+
+// AbiType is an ABI type in the JSON format of the contract ABIs.
+export interface AbiType {
+  name: string;
+  type: string;
+  internalType?: string;
+  components?: AbiType[];
+}
+
+/**
+ * AppDataCodec encodes and decodes the appData of an app with the data type
+ * `T`. Integers are decoded as decimal strings, like everywhere in web3.
+ */
+export class AppDataCodec<T> {
+  readonly type: AbiType;
+
+  constructor(components: AbiType[]) {
+    this.type = { name: "data", type: "tuple", components: components };
+  }
+
+  // fromAbi creates the codec of the struct `struct`, e.g. "TicTacToe.Data",
+  // that is used by a function or event of the contract ABI, so that the
+  // schema only has to be declared in Solidity.
+  static fromAbi<T>(abi: AbiItem[], struct: string): AppDataCodec<T> {
+    for (const item of abi) {
+      const type = findStruct([...(item.inputs || []), ...(item.outputs || [])], `struct ${struct}`);
+      if (type !== undefined) {
+        return new AppDataCodec<T>(type.components!);
+      }
+    }
+    throw new Error(`struct ${struct} not found in ABI`);
+  }
+
+  encodeAppData(data: T): string {
+    return web3.eth.abi.encodeParameter(this.type, data);
+  }
+
+  decodeAppData(appData: string): T {
+    return normalize(this.type, web3.eth.abi.decodeParameter(this.type, appData));
+  }
+}
+
+function findStruct(types: AbiType[], internalType: string): AbiType | undefined {
+  for (const type of types) {
+    if (type.internalType === internalType && type.type == "tuple") {
+      return type;
+    }
+    const found = findStruct(type.components || [], internalType);
+    if (found !== undefined) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+// normalize converts the decoded value into plain objects and arrays, i.e.,
+// without the positional keys that web3 adds to decoded tuples.
+function normalize(type: AbiType, value: any): any {
+  if (type.type.endsWith("]")) {
+    const elem = { ...type, type: type.type.slice(0, type.type.lastIndexOf("[")) };
+    return value.map((v: any) => normalize(elem, v));
+  }
+  if (type.type == "tuple") {
+    let obj: any = {};
+    type.components!.forEach(c => { obj[c.name] = normalize(c, value[c.name]) });
+    return obj;
+  }
+  return value;
+}
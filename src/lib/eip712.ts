@@ -0,0 +1,180 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// This file implements EIP-712 typed data for channel states and withdrawal
+// authorizations. The Adjudicator and the AssetHolders accept typed-data
+// signatures in addition to `eth_sign` signatures on the ABI encodings.
+
+import Web3 from "web3";
+declare const web3: Web3;
+import { State, Authorization } from "../test/Channel";
+import { asyncWeb3Send } from "./web3";
+import { sha3Raw } from "web3-utils";
+
+export interface TypedDataField {
+  name: string;
+  type: string;
+}
+
+export interface TypedDataDomain {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract: string;
+}
+
+// TypedData is the payload of `eth_signTypedData_v4`.
+export interface TypedData {
+  types: { [name: string]: TypedDataField[] };
+  primaryType: string;
+  domain: TypedDataDomain;
+  message: any;
+}
+
+const domainTypes = [
+  { name: "name", type: "string" },
+  { name: "version", type: "string" },
+  { name: "chainId", type: "uint256" },
+  { name: "verifyingContract", type: "address" },
+];
+
+const stateTypes = {
+  EIP712Domain: domainTypes,
+  State: [
+    { name: "channelID", type: "bytes32" },
+    { name: "version", type: "uint64" },
+    { name: "outcome", type: "Allocation" },
+    { name: "appData", type: "bytes" },
+    { name: "isFinal", type: "bool" },
+  ],
+  Allocation: [
+    { name: "assets", type: "address[]" },
+    { name: "balances", type: "uint256[][]" },
+    { name: "locked", type: "SubAlloc[]" },
+  ],
+  SubAlloc: [
+    { name: "ID", type: "bytes32" },
+    { name: "balances", type: "uint256[]" },
+  ],
+};
+
+const authorizationTypes = {
+  EIP712Domain: domainTypes,
+  WithdrawalAuth: [
+    { name: "channelID", type: "bytes32" },
+    { name: "participant", type: "address" },
+    { name: "receiver", type: "address" },
+    { name: "amount", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "fee", type: "uint256" },
+    { name: "relayer", type: "address" },
+  ],
+};
+
+// domain returns the EIP-712 domain of the Adjudicator or AssetHolder at
+// `verifyingContract`. The chain ID must be the one returned by the CHAINID
+// opcode, which the contracts use, and which is not necessarily the one of
+// `eth_chainId`, e.g. on ganache.
+export function domain(verifyingContract: string, chainId: number): TypedDataDomain {
+  return {
+    name: "Perun",
+    version: "1",
+    chainId: chainId,
+    verifyingContract: verifyingContract,
+  };
+}
+
+// stateTypedData returns the typed data of a state that is verified by the
+// Adjudicator of the domain.
+export function stateTypedData(state: State, domain: TypedDataDomain): TypedData {
+  return {
+    types: stateTypes,
+    primaryType: "State",
+    domain: domain,
+    message: state.serialize(),
+  };
+}
+
+// authorizationTypedData returns the typed data of a withdrawal
+// authorization that is verified by the AssetHolder of the domain.
+export function authorizationTypedData(auth: Authorization, domain: TypedDataDomain): TypedData {
+  return {
+    types: authorizationTypes,
+    primaryType: "WithdrawalAuth",
+    domain: domain,
+    message: auth.serialize(),
+  };
+}
+
+// typedDataHash returns the digest that is signed by `eth_signTypedData_v4`.
+export function typedDataHash(data: TypedData): string {
+  return sha3Raw("0x1901"
+    + hashStruct("EIP712Domain", data.domain, data.types).slice(2)
+    + hashStruct(data.primaryType, data.message, data.types).slice(2));
+}
+
+// signTypedData signs the typed data with an account of the connected node.
+export async function signTypedData(data: TypedData, account: string): Promise<string> {
+  const res = await asyncWeb3Send("eth_signTypedData_v4", [account, JSON.stringify(data)]);
+  if (res.error) {
+    throw new Error(res.error.message);
+  }
+  return res.result;
+}
+
+function dependencies(primaryType: string, types: TypedData["types"], found: Set<string> = new Set()): Set<string> {
+  if (found.has(primaryType) || types[primaryType] === undefined) {
+    return found;
+  }
+  found.add(primaryType);
+  types[primaryType].forEach(field => dependencies(field.type.replace(/(\[\])+$/, ""), types, found));
+  return found;
+}
+
+function encodeType(primaryType: string, types: TypedData["types"]): string {
+  let deps = Array.from(dependencies(primaryType, types)).filter(t => t != primaryType).sort();
+  return [primaryType, ...deps]
+    .map(t => `${t}(${types[t].map(f => `${f.type} ${f.name}`).join(",")})`)
+    .join("");
+}
+
+function hashStruct(primaryType: string, data: any, types: TypedData["types"]): string {
+  let encTypes = ["bytes32"];
+  let encValues = [sha3Raw(encodeType(primaryType, types))];
+  types[primaryType].forEach(field => {
+    const [type, value] = encodeField(field.type, data[field.name], types);
+    encTypes.push(type);
+    encValues.push(value);
+  });
+  return sha3Raw(web3.eth.abi.encodeParameters(encTypes, encValues));
+}
+
+function encodeField(type: string, value: any, types: TypedData["types"]): [string, any] {
+  if (types[type] !== undefined) {
+    return ["bytes32", hashStruct(type, value, types)];
+  }
+  if (type.endsWith("[]")) {
+    const itemType = type.slice(0, -2);
+    const items = (value as any[]).map(item => encodeField(itemType, item, types));
+    return ["bytes32", sha3Raw(web3.eth.abi.encodeParameters(
+      items.map(item => item[0]), items.map(item => item[1])))];
+  }
+  if (type == "bytes") {
+    return ["bytes32", sha3Raw(value)];
+  }
+  if (type == "string") {
+    return ["bytes32", sha3Raw(web3.utils.utf8ToHex(value))];
+  }
+  return [type, value];
+}
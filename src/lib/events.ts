@@ -0,0 +1,262 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/// <reference types="truffle-typings" />
+import Web3 from "web3";
+declare const web3: Web3;
+import BN from "bn.js";
+import { AdjudicatorInstance, AssetHolderInstance } from "../../types/truffle-contracts";
+import { DisputePhase } from "../test/Channel";
+import { ChannelUpdate, decodeChannelUpdateEvent } from "./adjudicator";
+import { fundingID } from "./test";
+import { Poller } from "./poller";
+
+// EventMeta locates an event on the chain.
+export interface EventMeta {
+  address: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface ChannelUpdateEvent extends ChannelUpdate, EventMeta {
+  kind: "ChannelUpdate";
+}
+
+export interface DepositedEvent extends EventMeta {
+  kind: "Deposited";
+  fundingID: string;
+  amount: BN;
+}
+
+export interface WithdrawnEvent extends EventMeta {
+  kind: "Withdrawn";
+  fundingID: string;
+  amount: BN;
+  receiver: string;
+}
+
+export interface OutcomeSetEvent extends EventMeta {
+  kind: "OutcomeSet";
+  channelID: string;
+}
+
+// IndexedEvent is an event of the Adjudicator or an AssetHolder.
+export type IndexedEvent = ChannelUpdateEvent | DepositedEvent | WithdrawnEvent | OutcomeSetEvent;
+
+// ChannelStage is the stage of a channel that an event marks.
+export enum ChannelStage { DEPOSITED, REGISTERED, REFUTED, PROGRESSED, CONCLUDED, OUTCOME_SET, WITHDRAWN }
+
+// TimelineEntry is an event of a channel together with the stage it marks.
+export interface TimelineEntry {
+  stage: ChannelStage;
+  event: IndexedEvent;
+}
+
+// Checkpoint is a processed block that is used to detect reorgs.
+interface Checkpoint {
+  number: number;
+  hash: string;
+}
+
+/**
+ * EventIndexer fetches the events of the Adjudicator and the AssetHolders
+ * and keeps them in chain order. Polling resumes after the last processed
+ * block. Events of blocks that were removed by a reorg are dropped and the
+ * blocks are processed again.
+ *
+ * Emits:
+ * - `event` (ev: IndexedEvent) for every new event.
+ * - `reorg` (blockNumber: number) when all events after `blockNumber` were
+ *   dropped because of a reorg.
+ */
+export class EventIndexer extends Poller {
+  adj: AdjudicatorInstance;
+  holders: AssetHolderInstance[];
+  private events: IndexedEvent[];
+  private startBlock: number;
+  private fromBlock: number;
+  private checkpoints: Checkpoint[];
+  private maxReorgDepth: number;
+  // Maps the funding IDs of tracked channels to their channel IDs.
+  private fundingIDs: Map<string, string>;
+
+  constructor(adj: AdjudicatorInstance, holders: AssetHolderInstance[], fromBlock: number = 0, maxReorgDepth: number = 64) {
+    super();
+    this.adj = adj;
+    this.holders = holders;
+    this.events = [];
+    this.startBlock = fromBlock;
+    this.fromBlock = fromBlock;
+    this.checkpoints = [];
+    this.maxReorgDepth = maxReorgDepth;
+    this.fundingIDs = new Map();
+  }
+
+  // nextBlock returns the block from which the next poll fetches events.
+  // An indexer can be resumed by passing it as `fromBlock`.
+  get nextBlock(): number {
+    return this.fromBlock;
+  }
+
+  // track associates the deposits and withdrawals of the participants with
+  // the channel in its timeline.
+  track(channelID: string, participants: string[]) {
+    participants.forEach(part => this.fundingIDs.set(fundingID(channelID, part).toLowerCase(), channelID));
+  }
+
+  // all returns all indexed events in chain order.
+  all(): IndexedEvent[] {
+    return this.events.slice();
+  }
+
+  // timeline returns the events of the channel in chain order. Deposits and
+  // withdrawals are only included if the channel is tracked.
+  timeline(channelID: string): TimelineEntry[] {
+    let entries: TimelineEntry[] = [];
+    let registered = false;
+    this.events.forEach(ev => {
+      if (this.channelOf(ev) != channelID.toLowerCase()) {
+        return;
+      }
+      switch (ev.kind) {
+        case "ChannelUpdate":
+          entries.push({ stage: updateStage(ev.phase, registered), event: ev });
+          registered = true;
+          break;
+        case "Deposited":
+          entries.push({ stage: ChannelStage.DEPOSITED, event: ev });
+          break;
+        case "OutcomeSet":
+          entries.push({ stage: ChannelStage.OUTCOME_SET, event: ev });
+          break;
+        case "Withdrawn":
+          entries.push({ stage: ChannelStage.WITHDRAWN, event: ev });
+          break;
+      }
+    });
+    return entries;
+  }
+
+  // poll fetches all events up to the current block and returns the new
+  // events.
+  async poll(): Promise<IndexedEvent[]> {
+    await this.handleReorg();
+    const toBlock = await web3.eth.getBlockNumber();
+    if (toBlock < this.fromBlock) {
+      return [];
+    }
+    const block = await web3.eth.getBlock(toBlock);
+    let fetched: IndexedEvent[] = [];
+    for (const instance of [this.adj, ...this.holders]) {
+      const events = await instance.contract.getPastEvents("allEvents", {
+        fromBlock: this.fromBlock,
+        toBlock: toBlock,
+      });
+      fetched.push(...events.map(decodeEvent).filter((ev: IndexedEvent | undefined) => ev !== undefined));
+    }
+    fetched.sort(compareEvents);
+    this.events.push(...fetched);
+    this.fromBlock = toBlock + 1;
+    this.checkpoints.push({ number: toBlock, hash: block.hash });
+    if (this.checkpoints.length > this.maxReorgDepth) {
+      this.checkpoints.shift();
+    }
+    fetched.forEach(ev => this.emit("event", ev));
+    return fetched;
+  }
+
+  // handleReorg drops the events after the last checkpoint that is still
+  // part of the chain.
+  private async handleReorg() {
+    let dropped = false;
+    while (this.checkpoints.length > 0) {
+      const cp = this.checkpoints[this.checkpoints.length - 1];
+      const block = await web3.eth.getBlock(cp.number);
+      if (block !== null && block.hash == cp.hash) {
+        break;
+      }
+      this.checkpoints.pop();
+      dropped = true;
+    }
+    if (!dropped) {
+      return;
+    }
+    // Without a checkpoint, all events are dropped.
+    const ancestor = this.checkpoints.length > 0
+      ? this.checkpoints[this.checkpoints.length - 1].number
+      : this.startBlock - 1;
+    this.events = this.events.filter(ev => ev.blockNumber <= ancestor);
+    this.fromBlock = ancestor + 1;
+    this.emit("reorg", ancestor);
+  }
+
+  private channelOf(ev: IndexedEvent): string | undefined {
+    switch (ev.kind) {
+      case "ChannelUpdate":
+      case "OutcomeSet":
+        return ev.channelID.toLowerCase();
+      default: {
+        const channelID = this.fundingIDs.get(ev.fundingID.toLowerCase());
+        return channelID !== undefined ? channelID.toLowerCase() : undefined;
+      }
+    }
+  }
+}
+
+function updateStage(phase: DisputePhase, registered: boolean): ChannelStage {
+  switch (phase) {
+    case DisputePhase.DISPUTE: return registered ? ChannelStage.REFUTED : ChannelStage.REGISTERED;
+    case DisputePhase.FORCEEXEC: return ChannelStage.PROGRESSED;
+    default: return ChannelStage.CONCLUDED;
+  }
+}
+
+function decodeEvent(ev: any): IndexedEvent | undefined {
+  const meta: EventMeta = {
+    address: ev.address,
+    blockNumber: ev.blockNumber,
+    blockHash: ev.blockHash,
+    transactionHash: ev.transactionHash,
+    logIndex: ev.logIndex,
+  };
+  switch (ev.event) {
+    case "ChannelUpdate":
+      return { kind: "ChannelUpdate", ...decodeChannelUpdateEvent(ev), ...meta };
+    case "Deposited":
+      return {
+        kind: "Deposited",
+        fundingID: ev.returnValues.fundingID,
+        amount: new BN(ev.returnValues.amount.toString()),
+        ...meta,
+      };
+    case "Withdrawn":
+      return {
+        kind: "Withdrawn",
+        fundingID: ev.returnValues.fundingID,
+        amount: new BN(ev.returnValues.amount.toString()),
+        receiver: ev.returnValues.receiver,
+        ...meta,
+      };
+    case "OutcomeSet":
+      return { kind: "OutcomeSet", channelID: ev.returnValues.channelID, ...meta };
+    default:
+      return undefined;
+  }
+}
+
+function compareEvents(a: IndexedEvent, b: IndexedEvent): number {
+  return a.blockNumber != b.blockNumber ? a.blockNumber - b.blockNumber : a.logIndex - b.logIndex;
+}
@@ -0,0 +1,189 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/// <reference types="truffle-typings" />
+import Web3 from "web3";
+declare const web3: Web3;
+import BN from "bn.js";
+import { AssetHolderContract, AssetHolderInstance } from "../../types/truffle-contracts";
+import { Params, State } from "../test/Channel";
+import { AssetHolderClient } from "./assetholder";
+import { fundingID } from "./test";
+import { Poller } from "./poller";
+
+// Deposit is a decoded `Deposited` event of an AssetHolder.
+export interface Deposit {
+  asset: string;
+  fundingID: string;
+  amount: BN;
+  blockNumber: number;
+}
+
+// FundingStatus is the funding progress of a participant on an asset.
+export interface FundingStatus {
+  asset: string;
+  participant: string;
+  required: BN;
+  deposited: BN;
+}
+
+// FundingReport is the funding progress of a channel on all its assets.
+export interface FundingReport {
+  channelID: string;
+  funded: boolean;
+  // The status of every participant on every asset, indexed as
+  // `[asset][participant]` like `Allocation.balances`.
+  statuses: FundingStatus[][];
+  // The statuses of the participants that have not fully funded yet.
+  missing: FundingStatus[];
+}
+
+// FundingTimeoutError is thrown by `FundingCoordinator.waitFunded` if the
+// channel was not funded in time.
+export class FundingTimeoutError extends Error {
+  report: FundingReport;
+
+  constructor(report: FundingReport) {
+    super(`channel ${report.channelID} not funded: ${report.missing.map(s =>
+      `${s.participant} deposited ${s.deposited} of ${s.required} on ${s.asset}`).join(", ")}`);
+    this.name = "FundingTimeoutError";
+    this.report = report;
+  }
+}
+
+/**
+ * FundingCoordinator tracks the `Deposited` events of the participants of a
+ * channel on all AssetHolders of its initial state until every participant
+ * deposited its balance.
+ *
+ * Emits:
+ * - `deposited` (deposit: Deposit) for every deposit of a participant.
+ * - `funded` (report: FundingReport) once the channel is fully funded.
+ */
+export class FundingCoordinator extends Poller {
+  params: Params;
+  state: State;
+  private deposited: BN[][];
+  private holders: AssetHolderInstance[];
+  private fromBlock: number;
+  private funded = false;
+
+  constructor(params: Params, state: State, fromBlock: number = 0) {
+    super();
+    this.params = params;
+    this.state = state;
+    this.deposited = state.outcome.assets.map(_ => params.participants.map(_ => new BN(0)));
+    this.holders = [];
+    this.fromBlock = fromBlock;
+  }
+
+  // fundingIDs returns the funding IDs of the participants.
+  fundingIDs(): string[] {
+    return this.params.participants.map(part => fundingID(this.state.channelID, part));
+  }
+
+  // report returns the funding progress as seen by the last poll.
+  report(): FundingReport {
+    const statuses = this.state.outcome.assets.map((asset, a) => this.params.participants.map((part, p) => ({
+      asset: asset,
+      participant: part,
+      required: new BN(this.state.outcome.balances[a][p]),
+      deposited: this.deposited[a][p],
+    })));
+    const missing = ([] as FundingStatus[]).concat(...statuses).filter(s => s.deposited.lt(s.required));
+    return {
+      channelID: this.state.channelID,
+      funded: missing.length == 0,
+      statuses: statuses,
+      missing: missing,
+    };
+  }
+
+  // poll processes all `Deposited` events since the last poll and returns
+  // the funding progress.
+  async poll(): Promise<FundingReport> {
+    const toBlock = await web3.eth.getBlockNumber();
+    if (toBlock >= this.fromBlock) {
+      const deposits = await this.deposits(this.fromBlock, toBlock);
+      this.fromBlock = toBlock + 1;
+      const ids = this.fundingIDs();
+      deposits.forEach(dep => {
+        const a = this.state.outcome.assets.findIndex(asset => asset.toLowerCase() == dep.asset.toLowerCase());
+        const p = ids.findIndex(id => id.toLowerCase() == dep.fundingID.toLowerCase());
+        this.deposited[a][p] = this.deposited[a][p].add(dep.amount);
+        this.emit("deposited", dep);
+      });
+    }
+    const report = this.report();
+    if (report.funded && !this.funded) {
+      this.funded = true;
+      this.emit("funded", report);
+    }
+    return report;
+  }
+
+  // waitFunded polls every `interval` milliseconds until the channel is
+  // funded. It rejects with a `FundingTimeoutError` after `timeout`
+  // milliseconds.
+  waitFunded(timeout: number, interval: number = 1000): Promise<FundingReport> {
+    return new Promise((resolve, reject) => {
+      let timer: NodeJS.Timeout;
+      const onFunded = (report: FundingReport) => { finish(); resolve(report); };
+      const onError = (err: Error) => { finish(); reject(err); };
+      const finish = () => {
+        clearTimeout(timer);
+        this.removeListener("funded", onFunded);
+        this.stop();
+      };
+      timer = setTimeout(() => { finish(); reject(new FundingTimeoutError(this.report())); }, timeout);
+      this.on("funded", onFunded);
+      if (this.funded) {
+        onFunded(this.report());
+        return;
+      }
+      this.start(interval, onError);
+    });
+  }
+
+  // depositShare deposits the balances of the participant at `idx` on all
+  // assets. The clients must be in the order of `state.outcome.assets`.
+  async depositShare(clients: AssetHolderClient[], idx: number) {
+    const id = this.fundingIDs()[idx];
+    for (let a = 0; a < clients.length; a++) {
+      await clients[a].deposit(id, new BN(this.state.outcome.balances[a][idx]));
+    }
+  }
+
+  private async deposits(fromBlock: number, toBlock: number): Promise<Deposit[]> {
+    if (this.holders.length == 0) {
+      const AssetHolder = artifacts.require<AssetHolderContract>("AssetHolder");
+      this.holders = await Promise.all(this.state.outcome.assets.map(asset => AssetHolder.at(asset)));
+    }
+    let deposits: Deposit[] = [];
+    for (const ah of this.holders) {
+      const events = await ah.contract.getPastEvents("Deposited", {
+        filter: { fundingID: this.fundingIDs() },
+        fromBlock: fromBlock,
+        toBlock: toBlock,
+      });
+      events.forEach((ev: any) => deposits.push({
+        asset: ah.address,
+        fundingID: ev.returnValues.fundingID,
+        amount: new BN(ev.returnValues.amount.toString()),
+        blockNumber: ev.blockNumber,
+      }));
+    }
+    return deposits;
+  }
+}
@@ -0,0 +1,63 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// This file implements the comparison of gas benchmarks with a baseline.
+
+/// <reference types="truffle-typings" />
+import * as fs from "fs";
+
+// GasReport maps the names of the benchmarked operations to their gas usage.
+export type GasReport = { [metric: string]: number };
+
+// GasRegression is a metric whose gas usage exceeds its baseline by more than
+// the threshold.
+export interface GasRegression {
+  metric: string;
+  baseline: number;
+  gas: number;
+  // The relative increase, e.g. 0.1 for 10%.
+  increase: number;
+}
+
+export function gasUsed(res: Truffle.TransactionResponse): number {
+  return res.receipt.gasUsed;
+}
+
+// compareGas returns the regressions of `report` compared to `baseline`.
+// Metrics that are missing in the baseline are ignored.
+export function compareGas(baseline: GasReport, report: GasReport, threshold: number): GasRegression[] {
+  let regressions: GasRegression[] = [];
+  for (const metric of Object.keys(report).sort()) {
+    if (baseline[metric] === undefined) {
+      continue;
+    }
+    const increase = (report[metric] - baseline[metric]) / baseline[metric];
+    if (increase > threshold) {
+      regressions.push({ metric: metric, baseline: baseline[metric], gas: report[metric], increase: increase });
+    }
+  }
+  return regressions;
+}
+
+export function readGasReport(file: string): GasReport {
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+// writeGasReport writes the report with sorted metrics so that changes of the
+// baseline are easy to review.
+export function writeGasReport(file: string, report: GasReport) {
+  let sorted: GasReport = {};
+  Object.keys(report).sort().forEach(metric => { sorted[metric] = report[metric] });
+  fs.writeFileSync(file, JSON.stringify(sorted, null, 2) + "\n");
+}
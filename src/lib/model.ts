@@ -0,0 +1,259 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// This file implements a reference model of the Adjudicator and its
+// AssetHolders. Every operation either applies the effects of the
+// corresponding transaction or throws an error with its revert reason and
+// leaves the model unchanged. The parameter `now` is the timestamp of the
+// block the transaction is mined in.
+
+import BN from "bn.js";
+import { DisputePhase, Params, State } from "../test/Channel";
+import { hash } from "./web3";
+import { fundingID } from "./test";
+import { Dispute } from "./adjudicator";
+import { TypedDataDomain } from "./eip712";
+import { AppRegistry } from "./app";
+import { Holdings } from "./outcome";
+import { Violation, checkParams, checkSignature, checkSignatures, checkTransition } from "./validator";
+
+const zeroAddress = "0x0000000000000000000000000000000000000000";
+const zeroHash = "0x0000000000000000000000000000000000000000000000000000000000000000";
+
+/**
+ * AdjudicatorModel is a pure TypeScript state machine of the disputes of an
+ * Adjudicator and the holdings of its AssetHolders. It is used as the
+ * reference in property-based tests of the contracts.
+ */
+export class AdjudicatorModel {
+  private disputes: Map<string, Dispute>;
+  private holdings: Holdings;
+  // The channel IDs per asset whose outcome is set.
+  private settled: Map<string, Set<string>>;
+  private apps: AppRegistry;
+  private domain?: TypedDataDomain;
+
+  constructor(apps: AppRegistry = new AppRegistry(), domain?: TypedDataDomain) {
+    this.disputes = new Map();
+    this.holdings = new Map();
+    this.settled = new Map();
+    this.apps = apps;
+    this.domain = domain;
+  }
+
+  // dispute returns the dispute of the channel like `Adjudicator.disputes`,
+  // i.e., a zero dispute if the channel is not registered.
+  dispute(channelID: string): Dispute {
+    const dispute = this.disputes.get(channelID.toLowerCase());
+    if (dispute === undefined) {
+      return { timeout: 0, challengeDuration: 0, version: "0", hasApp: false, phase: DisputePhase.DISPUTE, stateHash: zeroHash };
+    }
+    return { ...dispute };
+  }
+
+  holding(asset: string, id: string): BN {
+    const byID = this.holdings.get(asset.toLowerCase());
+    const bal = byID !== undefined ? byID.get(id.toLowerCase()) : undefined;
+    return bal !== undefined ? bal.clone() : new BN(0);
+  }
+
+  deposit(asset: string, id: string, amount: BN) {
+    this.setHolding(asset, id, this.holding(asset, id).add(amount));
+  }
+
+  // register mirrors `Adjudicator.register`.
+  register(params: Params, state: State, sigs: string[], now: number) {
+    this.atomic(() => {
+      check(checkParams(params, state));
+      check(checkSignatures(params, state, sigs, this.domain));
+      const dispute = this.disputes.get(state.channelID.toLowerCase());
+      if (dispute !== undefined) {
+        ensure(new BN(dispute.version).lt(new BN(state.version)), "invalid version");
+        ensure(dispute.phase == DisputePhase.DISPUTE, "incorrect phase");
+        ensure(now < dispute.timeout, "refutation timeout passed");
+      }
+      this.storeChallenge(params, state, DisputePhase.DISPUTE, now);
+    });
+  }
+
+  // progress mirrors `Adjudicator.progress`. The app of the channel must be
+  // registered in the app registry of the model.
+  progress(params: Params, stateOld: State, state: State, actorIdx: number, sig: string, now: number) {
+    this.atomic(() => {
+      const dispute = this.requireGetDispute(state.channelID);
+      if (dispute.phase == DisputePhase.DISPUTE) {
+        ensure(now >= dispute.timeout, "timeout not passed");
+      } else if (dispute.phase == DisputePhase.FORCEEXEC) {
+        ensure(now < dispute.timeout, "timeout passed");
+      } else {
+        ensure(false, "invalid phase");
+      }
+      ensure(params.app.toLowerCase() != zeroAddress, "must have app");
+      ensure(actorIdx < params.participants.length, "actorIdx out of range");
+      check(checkParams(params, state));
+      ensure(dispute.stateHash == hash(stateOld.encode()), "wrong old state");
+      check(checkSignature(state, sig, params.participants[actorIdx], this.domain));
+      const app = this.apps.get(params.app);
+      ensure(app !== undefined, "unknown app");
+      check(checkTransition(params, stateOld, state, actorIdx, app));
+      this.storeChallenge(params, state, DisputePhase.FORCEEXEC, now);
+    });
+  }
+
+  // conclude mirrors `Adjudicator.conclude`. The sub-states must be in
+  // depth-first order.
+  conclude(params: Params, state: State, subStates: State[], now: number) {
+    this.atomic(() => {
+      const dispute = this.requireGetDispute(state.channelID);
+      ensure(dispute.phase != DisputePhase.CONCLUDED, "channel already concluded");
+      check(checkParams(params, state));
+      this.ensureConcluded(state, now);
+      const index = this.ensureTreeConcluded(state, subStates, 0, now);
+      ensure(index == subStates.length, "wrong number of substates");
+      this.pushOutcome(state, subStates, params.participants);
+    });
+  }
+
+  // concludeFinal mirrors `Adjudicator.concludeFinal`.
+  concludeFinal(params: Params, state: State, sigs: string[], now: number) {
+    this.atomic(() => {
+      ensure(state.isFinal, "state not final");
+      ensure(state.outcome.locked.length == 0, "cannot have sub-channels");
+      check(checkParams(params, state));
+      check(checkSignatures(params, state, sigs, this.domain));
+      const dispute = this.disputes.get(state.channelID.toLowerCase());
+      if (dispute !== undefined) {
+        ensure(dispute.phase != DisputePhase.CONCLUDED, "channel already concluded");
+      }
+      this.storeChallenge(params, state, DisputePhase.CONCLUDED, now);
+      this.pushOutcome(state, [], params.participants);
+    });
+  }
+
+  private storeChallenge(params: Params, state: State, phase: DisputePhase, now: number) {
+    const old = this.disputes.get(state.channelID.toLowerCase());
+    let dispute: Dispute = {
+      timeout: old !== undefined ? old.timeout : 0,
+      challengeDuration: Number(params.challengeDuration),
+      version: state.version.toString(),
+      hasApp: params.app.toLowerCase() != zeroAddress,
+      phase: phase,
+      stateHash: hash(state.encode()),
+    };
+    if (state.isFinal) {
+      dispute.timeout = now;
+    } else if (old === undefined || phase == DisputePhase.FORCEEXEC) {
+      dispute.timeout = now + dispute.challengeDuration;
+    }
+    this.disputes.set(state.channelID.toLowerCase(), dispute);
+  }
+
+  private ensureTreeConcluded(parent: State, subStates: State[], start: number, now: number): number {
+    let index = start;
+    for (const sub of parent.outcome.locked) {
+      // The Adjudicator fails on the out-of-bounds access with an invalid opcode.
+      ensure(index < subStates.length, "invalid opcode");
+      const state = subStates[index];
+      ensure(sub.ID.toLowerCase() == state.channelID.toLowerCase(), "invalid channel ID");
+      this.ensureConcluded(state, now);
+      index++;
+      if (state.outcome.locked.length > 0) {
+        index = this.ensureTreeConcluded(state, subStates, index, now);
+      }
+    }
+    return index;
+  }
+
+  private ensureConcluded(state: State, now: number) {
+    const dispute = this.requireGetDispute(state.channelID);
+    ensure(dispute.stateHash == hash(state.encode()), "invalid channel state");
+    if (dispute.phase == DisputePhase.CONCLUDED) {
+      return;
+    }
+    if (dispute.phase == DisputePhase.DISPUTE && dispute.hasApp) {
+      dispute.timeout += dispute.challengeDuration;
+    }
+    ensure(now >= dispute.timeout, "timeout not passed yet");
+    dispute.phase = DisputePhase.CONCLUDED;
+    this.disputes.set(state.channelID.toLowerCase(), dispute);
+  }
+
+  // pushOutcome mirrors `Adjudicator.pushOutcome` and
+  // `AssetHolder.setOutcome`.
+  private pushOutcome(state: State, subStates: State[], parts: string[]) {
+    state.outcome.assets.forEach((asset, a) => {
+      const outcome = parts.map((_, p) => {
+        let bal = new BN(state.outcome.balances[a][p]);
+        for (const sub of subStates) {
+          ensure(sub.outcome.assets[a].toLowerCase() == asset.toLowerCase(), "assets do not match");
+          bal = bal.add(new BN(sub.outcome.balances[a][p]));
+        }
+        return bal;
+      });
+
+      let settled = this.settled.get(asset.toLowerCase()) || new Set<string>();
+      const channelID = state.channelID.toLowerCase();
+      ensure(!settled.has(channelID), "trying to set already settled channel");
+      const ids = parts.map(part => fundingID(state.channelID, part));
+      const sumHeld = ids.reduce((acc, id) => acc.add(this.holding(asset, id)), this.holding(asset, channelID));
+      const sumOutcome = outcome.reduce((acc, bal) => acc.add(bal), new BN(0));
+      this.setHolding(asset, channelID, new BN(0));
+      if (sumHeld.gte(sumOutcome)) {
+        ids.forEach((id, i) => this.setHolding(asset, id, outcome[i]));
+      }
+      settled.add(channelID);
+      this.settled.set(asset.toLowerCase(), settled);
+    });
+  }
+
+  private requireGetDispute(channelID: string): Dispute {
+    const dispute = this.disputes.get(channelID.toLowerCase());
+    ensure(dispute !== undefined, "not registered");
+    return { ...dispute! };
+  }
+
+  private setHolding(asset: string, id: string, amount: BN) {
+    const byID = this.holdings.get(asset.toLowerCase()) || new Map<string, BN>();
+    byID.set(id.toLowerCase(), amount);
+    this.holdings.set(asset.toLowerCase(), byID);
+  }
+
+  // atomic reverts the model to its previous state if `op` throws.
+  private atomic(op: () => void) {
+    const disputes = new Map(this.disputes);
+    const holdings = new Map([...this.holdings].map(([asset, byID]) => [asset, new Map(byID)]));
+    const settled = new Map([...this.settled].map(([asset, ids]) => [asset, new Set(ids)]));
+    try {
+      op();
+    } catch (err) {
+      this.disputes = disputes;
+      this.holdings = holdings;
+      this.settled = settled;
+      throw err;
+    }
+  }
+}
+
+function ensure(cond: boolean, reason: string) {
+  if (!cond) {
+    throw new Error(reason);
+  }
+}
+
+// check throws the first violation, which carries the revert reason.
+function check(violations: Violation[]) {
+  if (violations.length > 0) {
+    throw new Error(violations[0].reason);
+  }
+}
@@ -0,0 +1,105 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// This file predicts the effect of concluding a channel tree on the
+// AssetHolders by mirroring `Adjudicator.pushOutcome` and
+// `AssetHolder.setOutcome`.
+
+/// <reference types="truffle-typings" />
+import BN from "bn.js";
+import { AssetHolderContract } from "../../types/truffle-contracts";
+import { ChannelTree } from "./tree";
+import { fundingID } from "./test";
+
+// Holdings maps every asset to the holdings per funding ID on its
+// AssetHolder. Both keys are case-insensitive.
+export type Holdings = Map<string, Map<string, BN>>;
+
+// AssetOutcome is the effect of concluding a channel on a single asset.
+export interface AssetOutcome {
+  asset: string;
+  // The funds held for the channel and its participants before concluding.
+  held: BN;
+  // The accumulated outcome per participant that is pushed by `conclude`.
+  outcome: BN[];
+  // Whether `held` is less than the sum of `outcome`. Underfunded channels
+  // keep the deposits of the participants as they are.
+  underfunded: boolean;
+  // The funds every participant can withdraw after concluding.
+  withdrawable: BN[];
+  // The funds that nobody can withdraw after concluding, e.g. overfunding
+  // or deposits on the channel ID itself.
+  lost: BN;
+}
+
+// OutcomeReport is the effect of concluding a channel on all its assets.
+export interface OutcomeReport {
+  channelID: string;
+  participants: string[];
+  assets: AssetOutcome[];
+  underfunded: boolean;
+}
+
+// simulateOutcome predicts the holdings after concluding the channel tree.
+export function simulateOutcome(tree: ChannelTree, holdings: Holdings): OutcomeReport {
+  const channelID = tree.channelID();
+  const parts = tree.channel.params.participants;
+  const outcome = tree.outcome();
+  const assets = tree.channel.state.outcome.assets.map((asset, a): AssetOutcome => {
+    const held = (id: string) => holdingOf(holdings, asset, id);
+    const before = parts.map(part => held(fundingID(channelID, part)));
+    const sumHeld = before.reduce((acc, bal) => acc.add(bal), held(channelID));
+    const sumOutcome = outcome[a].reduce((acc, bal) => acc.add(bal), new BN(0));
+    const underfunded = sumHeld.lt(sumOutcome);
+    const withdrawable = underfunded ? before : outcome[a];
+    return {
+      asset: asset,
+      held: sumHeld,
+      outcome: outcome[a],
+      underfunded: underfunded,
+      withdrawable: withdrawable,
+      lost: sumHeld.sub(withdrawable.reduce((acc, bal) => acc.add(bal), new BN(0))),
+    };
+  });
+  return {
+    channelID: channelID,
+    participants: parts,
+    assets: assets,
+    underfunded: assets.some(a => a.underfunded),
+  };
+}
+
+// fetchHoldings reads the holdings of the channel and its participants from
+// the AssetHolders of the channel.
+export async function fetchHoldings(tree: ChannelTree): Promise<Holdings> {
+  const AssetHolder = artifacts.require<AssetHolderContract>("AssetHolder");
+  const channelID = tree.channelID();
+  const ids = [channelID, ...tree.channel.params.participants.map(part => fundingID(channelID, part))];
+  let holdings: Holdings = new Map();
+  for (const asset of tree.channel.state.outcome.assets) {
+    const ah = await AssetHolder.at(asset);
+    let byID = new Map<string, BN>();
+    for (const id of ids) {
+      byID.set(id.toLowerCase(), new BN((await ah.holdings.call(id)).toString()));
+    }
+    holdings.set(asset.toLowerCase(), byID);
+  }
+  return holdings;
+}
+
+function holdingOf(holdings: Holdings, asset: string, id: string): BN {
+  const byID = holdings.get(asset.toLowerCase());
+  const bal = byID !== undefined ? byID.get(id.toLowerCase()) : undefined;
+  return bal !== undefined ? bal : new BN(0);
+}
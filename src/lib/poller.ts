@@ -0,0 +1,52 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { EventEmitter } from "events";
+
+/**
+ * Poller calls `poll` every `interval` milliseconds while running via
+ * `start`. A poll is skipped while the previous one is still running.
+ */
+export abstract class Poller extends EventEmitter {
+  private timer?: NodeJS.Timeout;
+
+  abstract poll(): Promise<unknown>;
+
+  // start requires `onError`, which is called with the error of every failed
+  // poll, so that failures cannot go unnoticed. Polling continues after a
+  // failed poll.
+  start(interval: number, onError: (err: Error) => void) {
+    this.stop();
+    let polling = false;
+    this.timer = setInterval(async () => {
+      if (polling) { return; }
+      polling = true;
+      try {
+        await this.poll();
+      } catch (err) {
+        onError(err);
+      } finally {
+        polling = false;
+      }
+    }, interval);
+  }
+
+  stop() {
+    if (this.timer !== undefined) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
@@ -0,0 +1,272 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+/// <reference types="truffle-typings" />
+import * as http from "http";
+import BN from "bn.js";
+import { Authorization, Params, State } from "../test/Channel";
+import { AdjudicatorClient } from "./adjudicator";
+import { AssetHolderClient } from "./assetholder";
+import { domain } from "./eip712";
+import { verifyAuthorization } from "./sig";
+import { checkRegister } from "./validator";
+import { currentTimestamp } from "./web3";
+
+// The default size limit of request and response bodies in bytes.
+const defaultMaxBodySize = 64 * 1024;
+
+// RegisterRequest is the body of a `POST /register` request with the
+// serialized params and state.
+export interface RegisterRequest {
+  params: any;
+  state: any;
+  sigs: string[];
+}
+
+// WithdrawRequest is the body of a `POST /withdraw` request with the
+// serialized authorization.
+export interface WithdrawRequest {
+  assetHolder: string;
+  authorization: any;
+  signature: string;
+}
+
+// RelayResponse is the body of a successful response.
+export interface RelayResponse {
+  txHash: string;
+}
+
+/**
+ * Relayer submits the transactions of participants that hold no ETH for
+ * gas. It accepts signed states and withdrawal authorizations over HTTP and
+ * sends the Adjudicator and AssetHolder transactions from the accounts of its
+ * clients. Registrations are relayed for free, but only for channels with a
+ * participant in `registrants`. Withdrawals must pay at least `minFee` via
+ * the fee of their authorization, whose relayer must be the account of the
+ * AssetHolder client.
+ *
+ * Endpoints:
+ * - `POST /register` with a `RegisterRequest`.
+ * - `POST /withdraw` with a `WithdrawRequest`.
+ * Both respond with a `RelayResponse` or with status 400 and `{ error }` if
+ * the request is invalid or the transaction reverted. Bodies larger than
+ * `maxBodySize` bytes are answered with status 413, other requests with
+ * status 404.
+ */
+export class Relayer {
+  adj: AdjudicatorClient;
+  holders: AssetHolderClient[];
+  // The chain ID of the CHAINID opcode for typed-data signatures.
+  chainId: number;
+  minFee: BN;
+  // The lower-case addresses of the participants whose channels are
+  // registered. Registrations are disabled if it is empty.
+  registrants: Set<string>;
+  maxBodySize: number;
+  private server?: http.Server;
+
+  constructor(
+    adj: AdjudicatorClient,
+    holders: AssetHolderClient[],
+    chainId: number,
+    minFee: BN = new BN(0),
+    registrants: string[] = [],
+    maxBodySize: number = defaultMaxBodySize)
+  {
+    this.adj = adj;
+    this.holders = holders;
+    this.chainId = chainId;
+    this.minFee = minFee;
+    this.registrants = new Set(registrants.map(r => r.toLowerCase()));
+    this.maxBodySize = maxBodySize;
+  }
+
+  // register checks the state against the registered dispute before
+  // submitting it so that the relayer does not pay for reverting requests.
+  async register(req: RegisterRequest): Promise<RelayResponse> {
+    const params = Params.deserialize(req.params);
+    if (!params.participants.some(p => this.registrants.has(p.toLowerCase()))) {
+      throw new Error(`registration of channel ${params.channelID()} not allowed`);
+    }
+    const state = State.deserialize(req.state);
+    const violations = checkRegister(params, state, req.sigs, await this.adj.dispute(state.channelID),
+      await currentTimestamp(), domain(this.adj.address, this.chainId));
+    if (violations.length > 0) {
+      throw new Error(violations[0].reason);
+    }
+    const res = await this.adj.adj.register(params.serialize(), state.serialize(), req.sigs, { from: this.adj.from });
+    return { txHash: res.tx };
+  }
+
+  // withdraw checks the fee of the authorization and mirrors the checks of
+  // the AssetHolder before submitting it so that the relayer does not pay
+  // for reverting requests.
+  async withdraw(req: WithdrawRequest): Promise<RelayResponse> {
+    const client = this.holders.find(h => h.address.toLowerCase() == req.assetHolder.toLowerCase());
+    if (client === undefined) {
+      throw new Error(`unknown asset holder ${req.assetHolder}`);
+    }
+    const auth = Authorization.deserialize(req.authorization);
+    if (new BN(auth.fee).lt(this.minFee)) {
+      throw new Error(`fee too low, want at least ${this.minFee}`);
+    }
+    if (!new BN(auth.fee).isZero() && auth.relayer.toLowerCase() != client.from.toLowerCase()) {
+      throw new Error(`fee must be paid to relayer ${client.from}`);
+    }
+    if (!await client.settled(auth.channelID)) {
+      throw new Error("channel not settled");
+    }
+    if (!verifyAuthorization(auth, req.signature, domain(client.address, this.chainId))) {
+      throw new Error("signature verification failed");
+    }
+    const id = client.fundingID(auth.channelID, auth.participant);
+    if (!new BN(auth.nonce).eq(await client.withdrawalNonce(id))) {
+      throw new Error("invalid withdrawal nonce");
+    }
+    if (new BN(auth.fee).gt(new BN(auth.amount))) {
+      throw new Error("fee exceeds amount");
+    }
+    if ((await client.holdings(id)).lt(new BN(auth.amount))) {
+      throw new Error("insufficient holdings for withdrawal");
+    }
+    const res = await client.ah.withdraw(auth, req.signature, { from: client.from });
+    return { txHash: res.tx };
+  }
+
+  // listen starts serving on `port` of `host`. Port 0 selects a free port.
+  // It resolves to the port that is served.
+  listen(port: number = 0, host: string = "127.0.0.1"): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const server = http.createServer((req, res) => this.serve(req, res));
+      server.once("error", reject);
+      server.listen(port, host, () => {
+        this.server = server;
+        resolve((server.address() as { port: number }).port);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (this.server === undefined) {
+        resolve();
+        return;
+      }
+      this.server.close(err => err ? reject(err) : resolve());
+      this.server = undefined;
+    });
+  }
+
+  // serve routes the request before parsing its body so that unknown
+  // endpoints are answered with 404 independently of the body.
+  private async serve(req: http.IncomingMessage, res: http.ServerResponse) {
+    let status = 200;
+    let body: any;
+    const handler = req.method == "POST" ? this.handler(req.url) : undefined;
+    if (handler === undefined) {
+      status = 404;
+      body = { error: `unknown endpoint ${req.method} ${req.url}` };
+      req.resume();
+    } else {
+      try {
+        body = await handler(JSON.parse(await readBody(req, this.maxBodySize)));
+      } catch (err) {
+        status = err instanceof BodyTooLargeError ? 413 : 400;
+        body = { error: err.message };
+      }
+    }
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+
+  // handler returns the handler of the POST endpoint `url`.
+  private handler(url?: string): ((request: any) => Promise<RelayResponse>) | undefined {
+    switch (url) {
+      case "/register": return req => this.register(req);
+      case "/withdraw": return req => this.withdraw(req);
+      default: return undefined;
+    }
+  }
+}
+
+/**
+ * RelayerClient sends signed states and withdrawal authorizations to a
+ * Relayer at `url`, e.g. `http://127.0.0.1:8080`.
+ */
+export class RelayerClient {
+  url: string;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  async register(params: Params, state: State, sigs: string[]): Promise<RelayResponse> {
+    return this.post("/register", { params: params.serialize(), state: state.serialize(), sigs: sigs });
+  }
+
+  async withdraw(assetHolder: string, auth: Authorization, sig: string): Promise<RelayResponse> {
+    return this.post("/withdraw", { assetHolder: assetHolder, authorization: auth.serialize(), signature: sig });
+  }
+
+  // post rejects with the error of the relayer if the request failed.
+  private post(path: string, body: any): Promise<RelayResponse> {
+    return new Promise((resolve, reject) => {
+      const req = http.request(this.url + path, { method: "POST", headers: { "Content-Type": "application/json" } },
+        async res => {
+          try {
+            const data = JSON.parse(await readBody(res, defaultMaxBodySize));
+            if (res.statusCode == 200) {
+              resolve(data);
+            } else {
+              reject(new Error(data.error));
+            }
+          } catch (err) {
+            reject(err);
+          }
+        });
+      req.on("error", reject);
+      req.end(JSON.stringify(body));
+    });
+  }
+}
+
+class BodyTooLargeError extends Error {
+  constructor(limit: number) {
+    super(`body exceeds ${limit} bytes`);
+    this.name = "BodyTooLargeError";
+  }
+}
+
+// readBody rejects with a `BodyTooLargeError` as soon as the body exceeds
+// `limit` bytes and discards the rest of it.
+function readBody(stream: http.IncomingMessage, limit: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        stream.removeListener("data", onData);
+        stream.resume();
+        reject(new BodyTooLargeError(limit));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    stream.on("data", onData);
+    stream.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    stream.on("error", reject);
+  });
+}
@@ -0,0 +1,322 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// This file implements declarative scenarios of the channel lifecycle. A
+// scenario names its participants and channels and lists the steps that are
+// executed against freshly deployed contracts, one test per step:
+//
+//   runScenario({
+//     name: "dispute without app",
+//     participants: ["alice", "bob"],
+//     channels: { ledger: { app: false } },
+//     steps: [
+//       { action: "deposit", channel: "ledger", participant: "alice", amount: ether(1) },
+//       { action: "register", channel: "ledger", state: { version: 1, balances: [ether(1), 0] } },
+//       { action: "advanceTime", seconds: 61 },
+//       { action: "conclude", channel: "ledger", expect: { events: [{ channel: "ledger", phase: "CONCLUDED" }] } },
+//       { action: "expectHoldings", channel: "ledger", holdings: [ether(1), 0] },
+//     ],
+//   }, accounts);
+
+/// <reference types="truffle-typings" />
+import { assert } from "chai";
+import BN from "bn.js";
+import {
+  AdjudicatorContract,
+  AdjudicatorInstance,
+  AssetHolderETHContract,
+  AssetHolderETHInstance,
+  TrivialAppContract,
+} from "../../types/truffle-contracts";
+import { Channel, DisputePhase, State } from "../test/Channel";
+import { hash } from "./web3";
+import { advanceBlockTime, describeWithBlockRevert, fundingID } from "./test";
+import { AssetHolderClient } from "./assetholder";
+import { AdjudicatorClient, decodeChannelUpdates } from "./adjudicator";
+import { Balance, ChannelBuilder } from "./builder";
+
+type Phase = keyof typeof DisputePhase;
+
+export interface Scenario {
+  name: string;
+  // The names of the participants, which are given the accounts 1 to n.
+  participants: string[];
+  channels: { [name: string]: ChannelSpec };
+  steps: Step[];
+}
+
+export interface ChannelSpec {
+  // Whether the channel has an app, which is the `TrivialApp`. Defaults to
+  // true.
+  app?: boolean;
+  // Defaults to 60 seconds.
+  challengeDuration?: number;
+}
+
+// StateSpec describes a state of a channel with a single ETH asset.
+export interface StateSpec {
+  version: number;
+  // The balances of the participants in wei.
+  balances: Balance[];
+  // The names of the sub-channels of the state. Their balances are taken
+  // from their latest states.
+  subChannels?: string[];
+  final?: boolean;
+  appData?: string;
+}
+
+export interface EventSpec {
+  channel: string;
+  phase: Phase;
+  version?: number;
+}
+
+// Expectation is the expected result of a transaction. A transaction is
+// expected to succeed if no revert reason is given.
+export interface Expectation {
+  reverts?: string;
+  // The ChannelUpdate events that must be emitted.
+  events?: EventSpec[];
+}
+
+// Step is a step of a scenario. The states given to register, progress and
+// concludeFinal become the latest states of their channels if the
+// transaction succeeds. Conclude uses the latest states of the channel and
+// its sub-channels.
+export type Step =
+  | { action: "deposit"; channel: string; participant: string; amount: Balance }
+  | { action: "register"; channel: string; state: StateSpec; signers?: string[]; expect?: Expectation }
+  | { action: "progress"; channel: string; state: StateSpec; actor: string; expect?: Expectation }
+  | { action: "conclude"; channel: string; expect?: Expectation }
+  | { action: "concludeFinal"; channel: string; state: StateSpec; signers?: string[]; expect?: Expectation }
+  | { action: "withdraw"; channel: string; participant: string; expect?: Expectation }
+  | { action: "advanceTime"; seconds: number }
+  | { action: "expectPhase"; channel: string; phase: Phase }
+  | { action: "expectHoldings"; channel: string; holdings: Balance[] };
+
+// runScenario defines a test suite that executes the steps of the scenario
+// in order. It must be called inside of a truffle `contract` block.
+export function runScenario(scenario: Scenario, accounts: string[]) {
+  describeWithBlockRevert(scenario.name, () => {
+    const runner = new ScenarioRunner(scenario, accounts);
+
+    before(async () => runner.deploy());
+
+    scenario.steps.forEach((step, i) => {
+      it(`${i + 1}. ${stepName(step)}`, async () => runner.exec(step));
+    });
+  });
+}
+
+class ScenarioRunner {
+  private scenario: Scenario;
+  private accounts: string[];
+  private adj!: AdjudicatorInstance;
+  private ah!: AssetHolderETHInstance;
+  private app = "";
+  private latest: Map<string, State>;
+
+  constructor(scenario: Scenario, accounts: string[]) {
+    this.scenario = scenario;
+    this.accounts = accounts;
+    this.latest = new Map();
+  }
+
+  async deploy() {
+    const Adjudicator = artifacts.require<AdjudicatorContract>("Adjudicator");
+    const AssetHolderETH = artifacts.require<AssetHolderETHContract>("AssetHolderETH");
+    const TrivialApp = artifacts.require<TrivialAppContract>("TrivialApp");
+    this.adj = await Adjudicator.new();
+    this.ah = await AssetHolderETH.new(this.adj.address);
+    this.app = (await TrivialApp.new()).address;
+  }
+
+  async exec(step: Step) {
+    switch (step.action) {
+      case "deposit": {
+        const amount = new BN(step.amount.toString());
+        const from = this.account(step.participant);
+        await this.ah.deposit(fundingID(this.channelID(step.channel), from), amount, { value: amount, from: from });
+        return;
+      }
+      case "register": {
+        const ch = this.channel(step.channel, step.state);
+        const sigs = await ch.state.sign(this.signers(step.signers));
+        await this.send(step, ch.state, () => this.adj.register(ch.params.serialize(), ch.state.serialize(), sigs));
+        return;
+      }
+      case "progress": {
+        const from = this.latestState(step.channel);
+        const ch = this.channel(step.channel, step.state);
+        const actorIdx = this.scenario.participants.indexOf(step.actor);
+        const sig = (await ch.state.sign([this.account(step.actor)]))[0];
+        await this.send(step, ch.state, () => this.adj.progress(
+          ch.params.serialize(), from.serialize(), ch.state.serialize(), actorIdx, sig));
+        return;
+      }
+      case "conclude": {
+        const state = this.latestState(step.channel);
+        const subStates = this.subStates(state);
+        await this.send(step, undefined, () => this.adj.conclude(
+          this.channel(step.channel).params.serialize(), state.serialize(), subStates.map(s => s.serialize())));
+        return;
+      }
+      case "concludeFinal": {
+        const ch = this.channel(step.channel, step.state);
+        const sigs = await ch.state.sign(this.signers(step.signers));
+        await this.send(step, ch.state, () => this.adj.concludeFinal(ch.params.serialize(), ch.state.serialize(), sigs));
+        return;
+      }
+      case "withdraw": {
+        const participant = this.account(step.participant);
+        const client = new AssetHolderClient(this.ah, participant);
+        await this.send(step, undefined, () => client.withdraw(this.channelID(step.channel), participant, participant));
+        return;
+      }
+      case "advanceTime": {
+        await advanceBlockTime(step.seconds);
+        return;
+      }
+      case "expectPhase": {
+        const dispute = await new AdjudicatorClient(this.adj, this.accounts[0]).dispute(this.channelID(step.channel));
+        assert.equal(DisputePhase[dispute.phase], step.phase, `phase of ${step.channel}`);
+        return;
+      }
+      case "expectHoldings": {
+        const channelID = this.channelID(step.channel);
+        for (let i = 0; i < step.holdings.length; i++) {
+          const part = this.scenario.participants[i];
+          const held = await this.ah.holdings.call(fundingID(channelID, this.account(part)));
+          assert.equal(held.toString(), step.holdings[i].toString(), `holdings of ${part} in ${step.channel}`);
+        }
+        return;
+      }
+    }
+  }
+
+  // send sends the transaction and checks the expectation of the step. The
+  // state becomes the latest state of its channel if the transaction
+  // succeeds.
+  private async send(
+    step: { channel: string; expect?: Expectation },
+    state: State | undefined,
+    tx: () => Promise<Truffle.TransactionResponse>)
+  {
+    const expect = step.expect || {};
+    let res: Truffle.TransactionResponse;
+    try {
+      res = await tx();
+    } catch (err) {
+      assert(expect.reverts !== undefined, `unexpected revert: ${err.message}`);
+      assert(err.message.includes(expect.reverts!), `expected revert "${expect.reverts}", got: ${err.message}`);
+      return;
+    }
+    assert(expect.reverts === undefined, `expected revert "${expect.reverts}"`);
+    if (state !== undefined) {
+      this.latest.set(step.channel, state);
+    }
+    const updates = decodeChannelUpdates(res);
+    for (const ev of expect.events || []) {
+      const channelID = this.channelID(ev.channel);
+      assert(updates.some(u => u.channelID == channelID && DisputePhase[u.phase] == ev.phase
+        && (ev.version === undefined || u.version == ev.version.toString())),
+        `no ChannelUpdate event of ${ev.channel} in phase ${ev.phase}`);
+    }
+  }
+
+  private account(name: string): string {
+    const idx = this.scenario.participants.indexOf(name);
+    assert(idx >= 0, `unknown participant ${name}`);
+    return this.accounts[idx + 1];
+  }
+
+  private signers(names?: string[]): string[] {
+    return (names || this.scenario.participants).map(name => this.account(name));
+  }
+
+  private channelID(name: string): string {
+    return this.channel(name).params.channelID();
+  }
+
+  // channel builds the channel with the given state. The nonce is derived
+  // from the names of the scenario and the channel.
+  private channel(name: string, state: StateSpec = { version: 0, balances: [] }): Channel {
+    const spec = this.scenario.channels[name];
+    assert(spec !== undefined, `unknown channel ${name}`);
+    let builder = new ChannelBuilder()
+      .participants(this.scenario.participants.map(part => this.account(part)))
+      .challengeDuration(spec.challengeDuration !== undefined ? spec.challengeDuration : 60)
+      .nonce(hash(this.scenario.name, name))
+      .asset(this.ah.address, state.balances.length > 0 ? state.balances : this.scenario.participants.map(_ => 0))
+      .version(state.version.toString())
+      .final(state.final === true);
+    if (spec.app !== false) {
+      builder = builder.app(this.app);
+    }
+    if (state.appData !== undefined) {
+      builder = builder.appData(state.appData);
+    }
+    for (const sub of state.subChannels || []) {
+      const subState = this.latest.get(sub);
+      builder = builder.subAlloc(this.channelID(sub), subState === undefined ? [0] : totals(subState));
+    }
+    return builder.build();
+  }
+
+  private latestState(name: string): State {
+    const state = this.latest.get(name);
+    assert(state !== undefined, `channel ${name} has no state`);
+    return state!;
+  }
+
+  // subStates returns the latest states of the sub-channels of the state in
+  // depth-first order.
+  private subStates(state: State): State[] {
+    let subStates: State[] = [];
+    for (const sub of state.outcome.locked) {
+      const name = Object.keys(this.scenario.channels).find(name => this.channelID(name) == sub.ID);
+      assert(name !== undefined, `unknown sub-channel ${sub.ID}`);
+      const subState = this.latestState(name!);
+      subStates.push(subState, ...this.subStates(subState));
+    }
+    return subStates;
+  }
+}
+
+// totals returns the funds of every asset in the state, which are the
+// balances of the participants and the funds locked in sub-channels.
+function totals(state: State): BN[] {
+  return state.outcome.assets.map((_, a) => {
+    const sum = (bals: string[]) => bals.reduce((acc, bal) => acc.add(new BN(bal)), new BN(0));
+    return sum(state.outcome.balances[a]).add(sum(state.outcome.locked.map(sub => sub.balances[a])));
+  });
+}
+
+function stepName(step: Step): string {
+  switch (step.action) {
+    case "deposit": return `${step.participant} deposits ${step.amount} into ${step.channel}`;
+    case "register": return `register ${step.channel} version ${step.state.version}${expectName(step.expect)}`;
+    case "progress": return `${step.actor} progresses ${step.channel} to version ${step.state.version}${expectName(step.expect)}`;
+    case "conclude": return `conclude ${step.channel}${expectName(step.expect)}`;
+    case "concludeFinal": return `concludeFinal ${step.channel} version ${step.state.version}${expectName(step.expect)}`;
+    case "withdraw": return `${step.participant} withdraws from ${step.channel}${expectName(step.expect)}`;
+    case "advanceTime": return `advance time by ${step.seconds}s`;
+    case "expectPhase": return `${step.channel} is in phase ${step.phase}`;
+    case "expectHoldings": return `holdings of ${step.channel} are ${step.holdings.join(", ")}`;
+  }
+}
+
+function expectName(expect?: Expectation): string {
+  return expect !== undefined && expect.reverts !== undefined ? ` fails with "${expect.reverts}"` : "";
+}
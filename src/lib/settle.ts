@@ -0,0 +1,184 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+// This file implements the settlement of channels with multiple assets. A
+// channel is concluded on the Adjudicator, which sets the outcome on every
+// AssetHolder of the channel, and the participants then withdraw their
+// shares from each AssetHolder separately.
+
+/// <reference types="truffle-typings" />
+import Web3 from "web3";
+declare const web3: Web3;
+import BN from "bn.js";
+import { Params, State } from "../test/Channel";
+import { AdjudicatorClient, ChannelUpdate } from "./adjudicator";
+import { AssetHolderClient, SignedAuthorization } from "./assetholder";
+import { Signer, asSigner } from "./signer";
+import { sleep } from "./test";
+
+// Withdrawal is the withdrawal of the share of a participant from an
+// AssetHolder.
+export interface Withdrawal {
+  asset: string;
+  participant: string;
+  receiver: string;
+  amount: BN;
+}
+
+// SettleReport is the result of settling a channel.
+export interface SettleReport {
+  channelID: string;
+  // The `ChannelUpdate` events of the conclusion.
+  updates: ChannelUpdate[];
+  withdrawals: Withdrawal[];
+}
+
+export interface SettleOptions {
+  // The signatures of all participants on the final state. If given, the
+  // channel is concluded with `concludeFinal`. Otherwise, it is concluded
+  // with `conclude`, which requires the timeout of the registered state to
+  // be passed.
+  sigs?: string[];
+  // The states of the sub-channels in depth-first order for `conclude`.
+  subStates?: State[];
+  // The receivers of the shares in the order of the participants. Default to
+  // the participants themselves.
+  receivers?: string[];
+  // The time in milliseconds to wait for the outcomes. Defaults to a minute.
+  timeout?: number;
+}
+
+// OutcomeTimeoutError is thrown by `ChannelSettler.waitOutcomes` if the
+// outcome was not set on all AssetHolders in time.
+export class OutcomeTimeoutError extends Error {
+  channelID: string;
+  // The AssetHolders on which the outcome was not set.
+  missing: string[];
+
+  constructor(channelID: string, missing: string[]) {
+    super(`outcome of channel ${channelID} not set on ${missing.join(", ")}`);
+    this.name = "OutcomeTimeoutError";
+    this.channelID = channelID;
+    this.missing = missing;
+  }
+}
+
+/**
+ * ChannelSettler concludes a channel on the Adjudicator and withdraws the
+ * shares of the participants from all AssetHolders of the channel. All
+ * transactions are sent from the account of the Adjudicator client.
+ */
+export class ChannelSettler {
+  adj: AdjudicatorClient;
+  params: Params;
+  // The clients of the AssetHolders in the order of `state.outcome.assets`.
+  clients: AssetHolderClient[];
+
+  constructor(adj: AdjudicatorClient, params: Params, clients: AssetHolderClient[]) {
+    this.adj = adj;
+    this.params = params;
+    this.clients = clients;
+  }
+
+  // at returns a settler for the AssetHolders of the state's assets.
+  static async at(adj: AdjudicatorClient, params: Params, state: State): Promise<ChannelSettler> {
+    const clients = await Promise.all(state.outcome.assets.map(asset => AssetHolderClient.at(asset, adj.from)));
+    return new ChannelSettler(adj, params, clients);
+  }
+
+  // settle concludes the channel with the state, waits until the outcome is
+  // set on all AssetHolders and withdraws the shares of the participants.
+  // The signers must be in the order of the participants.
+  async settle(state: State, signers: (string | Signer)[], opts: SettleOptions = {}): Promise<SettleReport> {
+    const fromBlock = await web3.eth.getBlockNumber();
+    const updates = opts.sigs !== undefined
+      ? await this.adj.concludeFinal(this.params, state, opts.sigs)
+      : await this.adj.conclude(this.params, state, opts.subStates);
+    await this.waitOutcomes(state.channelID, fromBlock, opts.timeout !== undefined ? opts.timeout : 60000);
+    return {
+      channelID: state.channelID,
+      updates: updates,
+      withdrawals: await this.withdraw(state.channelID, signers, opts.receivers),
+    };
+  }
+
+  // outcomesSet returns the AssetHolders that emitted an `OutcomeSet` event
+  // for the channel since `fromBlock`.
+  async outcomesSet(channelID: string, fromBlock: number): Promise<string[]> {
+    let assets: string[] = [];
+    for (const client of this.clients) {
+      const events = await client.ah.contract.getPastEvents("OutcomeSet", {
+        filter: { channelID: channelID },
+        fromBlock: fromBlock,
+        toBlock: "latest",
+      });
+      if (events.length > 0) {
+        assets.push(client.address);
+      }
+    }
+    return assets;
+  }
+
+  // waitOutcomes polls every `interval` milliseconds until the outcome of the
+  // channel is set on all AssetHolders. It rejects with an
+  // `OutcomeTimeoutError` after `timeout` milliseconds.
+  async waitOutcomes(channelID: string, fromBlock: number, timeout: number, interval: number = 1000) {
+    const deadline = Date.now() + timeout;
+    for (;;) {
+      const set = await this.outcomesSet(channelID, fromBlock);
+      const missing = this.clients.map(client => client.address).filter(asset => !set.includes(asset));
+      if (missing.length == 0) {
+        return;
+      }
+      if (Date.now() >= deadline) {
+        throw new OutcomeTimeoutError(channelID, missing);
+      }
+      await sleep(interval);
+    }
+  }
+
+  // withdraw withdraws the holdings of all participants to their receivers
+  // with one batch per AssetHolder. Participants without holdings on an
+  // AssetHolder are skipped.
+  async withdraw(channelID: string, signers: (string | Signer)[], receivers?: string[]): Promise<Withdrawal[]> {
+    const parts = this.params.participants;
+    if (signers.length != parts.length || (receivers !== undefined && receivers.length != parts.length)) {
+      throw new Error("wrong number of signers or receivers");
+    }
+    const accounts = signers.map(asSigner);
+    accounts.forEach((signer, p) => {
+      if (signer.address.toLowerCase() != parts[p].toLowerCase()) {
+        throw new Error(`signer ${signer.address} is not participant ${p}`);
+      }
+    });
+    let withdrawals: Withdrawal[] = [];
+    for (const client of this.clients) {
+      let auths: SignedAuthorization[] = [];
+      for (let p = 0; p < parts.length; p++) {
+        const receiver = receivers !== undefined ? receivers[p] : parts[p];
+        const amount = await client.holdings(client.fundingID(channelID, parts[p]));
+        if (amount.isZero()) {
+          continue;
+        }
+        auths.push(await client.authorize(channelID, accounts[p], receiver, amount));
+        withdrawals.push({ asset: client.address, participant: parts[p], receiver: receiver, amount: amount });
+      }
+      if (auths.length > 0) {
+        await client.withdrawBatch(auths);
+      }
+    }
+    return withdrawals;
+  }
+}
@@ -0,0 +1,124 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// This file mirrors the signature verification of `Sig.verify`,
+// `Sig.verifyTypedData`, `Channel.validateSignatures` and
+// `AssetHolder.verifyAuthorization`. Signatures that are accepted here are
+// accepted on-chain and vice versa.
+// The typed-data variants are only checked if the EIP-712 domain of the
+// verifying contract is given.
+
+import BN from "bn.js";
+import {
+  ecrecover,
+  hashPersonalMessage,
+  pubToAddress,
+  toBuffer,
+  toChecksumAddress,
+} from "ethereumjs-util";
+import { Params, State, Authorization } from "../test/Channel";
+import { hash } from "./web3";
+import {
+  TypedDataDomain,
+  stateTypedData,
+  authorizationTypedData,
+  typedDataHash,
+} from "./eip712";
+
+// The upper bound of `s` that `ECDSA.recover` accepts.
+const secp256k1nHalf = new BN("7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0", 16);
+
+// recoverDigestSigner mirrors `ECDSA.recover`. It throws with the revert
+// reason of `ECDSA.recover` if the signature is malformed.
+export function recoverDigestSigner(digest: string, sig: string): string {
+  const buf = toBuffer(sig);
+  if (buf.length != 65) {
+    throw new Error("ECDSA: invalid signature length");
+  }
+  const r = buf.slice(0, 32);
+  const s = buf.slice(32, 64);
+  const v = buf[64];
+  if (new BN(s).gt(secp256k1nHalf)) {
+    throw new Error("ECDSA: invalid signature 's' value");
+  }
+  if (v != 27 && v != 28) {
+    throw new Error("ECDSA: invalid signature 'v' value");
+  }
+  let signer: Buffer;
+  try {
+    signer = pubToAddress(ecrecover(toBuffer(digest), v, r, s));
+  } catch (_) {
+    throw new Error("ECDSA: invalid signature");
+  }
+  return toChecksumAddress("0x" + signer.toString("hex"));
+}
+
+// recoverSigner returns the signer of `data` as it is recovered by
+// `Sig.verify`.
+export function recoverSigner(data: string, sig: string): string {
+  return recoverDigestSigner("0x" + hashPersonalMessage(toBuffer(hash(data))).toString("hex"), sig);
+}
+
+// recoverStateSigner returns the signer of an `eth_sign` signature on the
+// state. Use `verifyStateSignature` to also accept typed-data signatures.
+export function recoverStateSigner(state: State, sig: string): string {
+  return recoverSigner(state.encode(), sig);
+}
+
+// verifyStateSignature mirrors `Channel.verifySignature`. Malformed
+// signatures, which revert on-chain, are rejected.
+export function verifyStateSignature(state: State, sig: string, signer: string, domain?: TypedDataDomain): boolean {
+  if (signedBy(() => recoverStateSigner(state, sig), signer)) {
+    return true;
+  }
+  return domain !== undefined
+    && signedBy(() => recoverDigestSigner(typedDataHash(stateTypedData(state, domain)), sig), signer);
+}
+
+// verifyStateSignatures mirrors `Channel.validateSignatures`: every
+// participant must have signed the state and the signatures must be in the
+// order of `params.participants`.
+export function verifyStateSignatures(params: Params, state: State, sigs: string[], domain?: TypedDataDomain): boolean {
+  return params.participants.length == sigs.length
+    && sigs.every((sig, i) => verifyStateSignature(state, sig, params.participants[i], domain));
+}
+
+// verifyAuthorization mirrors `AssetHolder.verifyAuthorization`: the
+// authorization must be signed by its participant.
+export function verifyAuthorization(auth: Authorization, sig: string, domain?: TypedDataDomain): boolean {
+  if (signedBy(() => recoverSigner(auth.encode(), sig), auth.participant)) {
+    return true;
+  }
+  return domain !== undefined
+    && signedBy(() => recoverDigestSigner(typedDataHash(authorizationTypedData(auth, domain)), sig), auth.participant);
+}
+
+// normalizeSignature converts the recovery id `v` of a signature from
+// {0, 1}, as returned by some nodes, to {27, 28}, as required on-chain.
+// Other signatures are returned unchanged.
+export function normalizeSignature(sig: string): string {
+  const buf = toBuffer(sig);
+  if (buf.length == 65 && buf[64] < 2) {
+    buf[64] += 27;
+  }
+  return "0x" + buf.toString("hex");
+}
+
+function signedBy(recover: () => string, signer: string): boolean {
+  try {
+    return recover().toLowerCase() == signer.toLowerCase();
+  } catch (_) {
+    return false;
+  }
+}
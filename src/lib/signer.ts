@@ -0,0 +1,137 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import Web3 from "web3";
+declare const web3: Web3;
+import {
+  ecsign,
+  hashPersonalMessage,
+  privateToAddress,
+  toBuffer,
+  toChecksumAddress,
+  toRpcSig,
+} from "ethereumjs-util";
+import { sign, hash } from "./web3";
+import { TypedData, typedDataHash, signTypedData } from "./eip712";
+
+/**
+ * Signer produces the signatures that are verified by the Adjudicator and
+ * the AssetHolders for a single account.
+ */
+export interface Signer {
+  readonly address: string;
+  // sign signs the keccak256 hash of the ABI encoded `data` as an
+  // Ethereum signed message, like `eth_sign` does.
+  sign(data: string): Promise<string>;
+  // signTypedData signs the EIP-712 typed data, like
+  // `eth_signTypedData_v4` does.
+  signTypedData(data: TypedData): Promise<string>;
+}
+
+// NodeSigner signs with an account that is unlocked on the connected node.
+export class NodeSigner implements Signer {
+  readonly address: string;
+
+  constructor(address: string) {
+    this.address = address;
+  }
+
+  sign(data: string): Promise<string> {
+    return sign(data, this.address);
+  }
+
+  signTypedData(data: TypedData): Promise<string> {
+    return signTypedData(data, this.address);
+  }
+}
+
+// PrivateKeySigner signs in-process with a raw secp256k1 private key.
+export class PrivateKeySigner implements Signer {
+  readonly address: string;
+  private key: Buffer;
+
+  constructor(privateKey: string) {
+    this.key = toBuffer(privateKey);
+    this.address = toChecksumAddress("0x" + privateToAddress(this.key).toString("hex"));
+  }
+
+  async sign(data: string): Promise<string> {
+    return this.signDigest(hashPersonalMessage(toBuffer(hash(data))));
+  }
+
+  async signTypedData(data: TypedData): Promise<string> {
+    return this.signDigest(toBuffer(typedDataHash(data)));
+  }
+
+  private signDigest(digest: Buffer): string {
+    const sig = ecsign(digest, this.key);
+    return toRpcSig(sig.v, sig.r, sig.s);
+  }
+}
+
+/**
+ * Keystore holds the private keys of several accounts in memory and hands
+ * out a `PrivateKeySigner` per account.
+ */
+export class Keystore {
+  private signers: Map<string, PrivateKeySigner>;
+
+  constructor(privateKeys: string[] = []) {
+    this.signers = new Map();
+    privateKeys.forEach(key => this.add(key));
+  }
+
+  // add adds the private key and returns the address of its account.
+  add(privateKey: string): string {
+    const signer = new PrivateKeySigner(privateKey);
+    this.signers.set(signer.address.toLowerCase(), signer);
+    return signer.address;
+  }
+
+  // addEncrypted decrypts a V3 keystore JSON file and adds its key.
+  addEncrypted(keystore: any, password: string): string {
+    return this.add(web3.eth.accounts.decrypt(keystore, password).privateKey);
+  }
+
+  // create generates a new random key and returns the address of its account.
+  create(): string {
+    return this.add(web3.eth.accounts.create().privateKey);
+  }
+
+  remove(address: string) {
+    this.signers.delete(address.toLowerCase());
+  }
+
+  addresses(): string[] {
+    return Array.from(this.signers.values()).map(signer => signer.address);
+  }
+
+  has(address: string): boolean {
+    return this.signers.has(address.toLowerCase());
+  }
+
+  signer(address: string): Signer {
+    const signer = this.signers.get(address.toLowerCase());
+    if (signer === undefined) {
+      throw new Error(`unknown account ${address}`);
+    }
+    return signer;
+  }
+}
+
+// asSigner returns `signer` or, for an address, a signer for the node
+// account with that address.
+export function asSigner(signer: string | Signer): Signer {
+  return typeof signer === "string" ? new NodeSigner(signer) : signer;
+}
@@ -0,0 +1,237 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as fs from "fs";
+import * as path from "path";
+import { promisify } from "util";
+import BN from "bn.js";
+import { Params, State } from "../test/Channel";
+import { TypedDataDomain } from "./eip712";
+import { verifyStateSignatures } from "./sig";
+
+// SignedState is a channel state together with the signatures of all
+// participants in the order of `params.participants`.
+export interface SignedState {
+  params: Params;
+  state: State;
+  sigs: string[];
+}
+
+// ChannelRecord is everything that is stored about a channel. The states
+// are ordered by ascending version.
+export interface ChannelRecord {
+  params: Params;
+  states: { state: State, sigs: string[] }[];
+}
+
+// StoreBackend persists channel records. It does not validate them.
+export interface StoreBackend {
+  load(channelID: string): Promise<ChannelRecord | undefined>;
+  save(channelID: string, record: ChannelRecord): Promise<void>;
+  remove(channelID: string): Promise<void>;
+  channelIDs(): Promise<string[]>;
+}
+
+/**
+ * ChannelStore keeps the parameters and all fully signed states of
+ * channels. Only states with a higher version than the latest stored state
+ * and valid signatures of all participants are accepted, so `latest`
+ * always returns the newest state that can be enforced on-chain.
+ */
+export class ChannelStore {
+  backend: StoreBackend;
+  // The EIP-712 domain of the Adjudicator. Typed-data signatures are only
+  // accepted if it is set.
+  domain?: TypedDataDomain;
+  // The pending writes of every channel. Writes of a channel are chained so
+  // that a write always compares against the record of the previous one.
+  private writes: Map<string, Promise<void>>;
+
+  constructor(backend: StoreBackend = new MemoryBackend(), domain?: TypedDataDomain) {
+    this.backend = backend;
+    this.domain = domain;
+    this.writes = new Map();
+  }
+
+  // put stores a fully signed state. Storing the latest state again is a
+  // no-op.
+  put(params: Params, state: State, sigs: string[]): Promise<void> {
+    const channelID = params.channelID();
+    return this.serialize(channelID, () => this.write(channelID, params, state, sigs));
+  }
+
+  private async write(channelID: string, params: Params, state: State, sigs: string[]) {
+    if (state.channelID.toLowerCase() != channelID.toLowerCase()) {
+      throw new Error(`state of channel ${state.channelID} does not match params of channel ${channelID}`);
+    }
+    let record = await this.backend.load(channelID);
+    const latest = record !== undefined ? record.states[record.states.length - 1] : undefined;
+    if (latest !== undefined) {
+      if (latest.state.encode() == state.encode()) {
+        return;
+      }
+      if (!new BN(state.version).gt(new BN(latest.state.version))) {
+        throw new Error(`version ${state.version} of channel ${channelID} is not higher than stored version ${latest.state.version}`);
+      }
+    }
+    if (!verifyStateSignatures(params, state, sigs, this.domain)) {
+      throw new Error(`invalid signatures on version ${state.version} of channel ${channelID}`);
+    }
+    if (record === undefined) {
+      record = { params: params, states: [] };
+    }
+    record.states.push({ state: state, sigs: sigs.slice() });
+    await this.backend.save(channelID, record);
+  }
+
+  // latest returns the newest stored state of the channel.
+  async latest(channelID: string): Promise<SignedState | undefined> {
+    const record = await this.backend.load(channelID);
+    if (record === undefined || record.states.length == 0) {
+      return undefined;
+    }
+    const latest = record.states[record.states.length - 1];
+    return { params: record.params, state: latest.state, sigs: latest.sigs };
+  }
+
+  // history returns all stored states of the channel by ascending version.
+  async history(channelID: string): Promise<SignedState[]> {
+    const record = await this.backend.load(channelID);
+    if (record === undefined) {
+      return [];
+    }
+    return record.states.map(s => ({ params: record.params, state: s.state, sigs: s.sigs }));
+  }
+
+  async params(channelID: string): Promise<Params | undefined> {
+    const record = await this.backend.load(channelID);
+    return record !== undefined ? record.params : undefined;
+  }
+
+  channelIDs(): Promise<string[]> {
+    return this.backend.channelIDs();
+  }
+
+  delete(channelID: string): Promise<void> {
+    return this.serialize(channelID, () => this.backend.remove(channelID));
+  }
+
+  // serialize runs `op` after all pending writes of the channel.
+  private serialize(channelID: string, op: () => Promise<void>): Promise<void> {
+    const key = channelID.toLowerCase();
+    const pending = this.writes.get(key) ?? Promise.resolve();
+    const write = pending.catch(() => {}).then(op);
+    this.writes.set(key, write);
+    const done = () => {
+      if (this.writes.get(key) === write) {
+        this.writes.delete(key);
+      }
+    };
+    write.then(done, done);
+    return write;
+  }
+}
+
+// MemoryBackend keeps the channel records in memory.
+export class MemoryBackend implements StoreBackend {
+  private records: Map<string, string>;
+
+  constructor() {
+    this.records = new Map();
+  }
+
+  async load(channelID: string): Promise<ChannelRecord | undefined> {
+    const data = this.records.get(channelID.toLowerCase());
+    return data !== undefined ? deserializeRecord(JSON.parse(data)) : undefined;
+  }
+
+  async save(channelID: string, record: ChannelRecord) {
+    // Records are copied so that callers cannot modify stored states.
+    this.records.set(channelID.toLowerCase(), JSON.stringify(serializeRecord(record)));
+  }
+
+  async remove(channelID: string) {
+    this.records.delete(channelID.toLowerCase());
+  }
+
+  async channelIDs(): Promise<string[]> {
+    return Array.from(this.records.keys());
+  }
+}
+
+// FileBackend keeps every channel record in a JSON file in `dir`.
+export class FileBackend implements StoreBackend {
+  dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  async load(channelID: string): Promise<ChannelRecord | undefined> {
+    let data: string;
+    try {
+      data = await promisify(fs.readFile)(this.file(channelID), "utf8");
+    } catch (err) {
+      if (err.code == "ENOENT") {
+        return undefined;
+      }
+      throw err;
+    }
+    return deserializeRecord(JSON.parse(data));
+  }
+
+  async save(channelID: string, record: ChannelRecord) {
+    // Write to a temporary file first so that a crash cannot corrupt the
+    // stored record.
+    const tmp = this.file(channelID) + ".tmp";
+    await promisify(fs.writeFile)(tmp, JSON.stringify(serializeRecord(record), null, 2));
+    await promisify(fs.rename)(tmp, this.file(channelID));
+  }
+
+  async remove(channelID: string) {
+    try {
+      await promisify(fs.unlink)(this.file(channelID));
+    } catch (err) {
+      if (err.code != "ENOENT") {
+        throw err;
+      }
+    }
+  }
+
+  async channelIDs(): Promise<string[]> {
+    const files = await promisify(fs.readdir)(this.dir);
+    return files.filter(f => f.endsWith(".json")).map(f => f.slice(0, -".json".length));
+  }
+
+  private file(channelID: string): string {
+    return path.join(this.dir, channelID.toLowerCase() + ".json");
+  }
+}
+
+function serializeRecord(record: ChannelRecord): any {
+  return {
+    params: record.params.serialize(),
+    states: record.states.map(s => ({ state: s.state.serialize(), sigs: s.sigs })),
+  };
+}
+
+function deserializeRecord(obj: any): ChannelRecord {
+  return {
+    params: Params.deserialize(obj.params),
+    states: obj.states.map((s: any) => ({ state: State.deserialize(s.state), sigs: s.sigs.slice() })),
+  };
+}
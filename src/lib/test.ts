@@ -58,3 +58,19 @@ export function itWithBlockRevert(name: string, test: any) {
     await asyncWeb3Send('evm_revert', [snapshot_id]);
   });
 }
+
+// fuzzSeed returns the seed of randomized tests, which is taken from
+// FUZZ_SEED if set so that a failing run can be replayed.
+export function fuzzSeed(): number {
+  return process.env.FUZZ_SEED !== undefined ? Number(process.env.FUZZ_SEED) : Date.now() % 1000000;
+}
+
+// random returns a deterministic pseudo-random number generator.
+export function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
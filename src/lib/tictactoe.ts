@@ -0,0 +1,148 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// This file implements the off-chain side of the `TicTacToeApp` contract.
+
+import Web3 from "web3";
+declare const web3: Web3;
+import BN from "bn.js";
+import { Params, State } from "../test/Channel";
+import { OffChainApp } from "./app";
+
+const numParts = 2;
+const numFields = 9;
+const lines = [
+  [0, 1, 2], [3, 4, 5], [6, 7, 8],
+  [0, 3, 6], [1, 4, 7], [2, 5, 8],
+  [0, 4, 8], [2, 4, 6],
+];
+
+/**
+ * TicTacToeData is the appData of a tic-tac-toe channel. A field of the grid
+ * is 0 if it is empty and `idx + 1` if it is marked by participant `idx`.
+ */
+export class TicTacToeData {
+  next: number;
+  grid: number[];
+
+  constructor(next: number = 0, grid: number[] = new Array(numFields).fill(0)) {
+    this.next = next;
+    this.grid = grid;
+  }
+
+  encode(): string {
+    return web3.utils.bytesToHex([this.next, ...this.grid]);
+  }
+
+  static decode(appData: string): TicTacToeData {
+    const bytes = web3.utils.hexToBytes(appData);
+    if (bytes.length != numFields + 1) {
+      throw new Error("invalid appData length");
+    }
+    return new TicTacToeData(bytes[0], bytes.slice(1));
+  }
+
+  // winner returns the index of the participant with three marks in a row.
+  winner(): number | undefined {
+    for (const [a, b, c] of lines) {
+      const mark = this.grid[a];
+      if (mark != 0 && mark == this.grid[b] && mark == this.grid[c]) {
+        return mark - 1;
+      }
+    }
+    return undefined;
+  }
+
+  full(): boolean {
+    return this.grid.every(mark => mark != 0);
+  }
+}
+
+// TicTacToeApp is the twin of the `TicTacToeApp` contract.
+export class TicTacToeApp implements OffChainApp {
+  validTransition(params: Params, from: State, to: State, actorIdx: number) {
+    check(params.participants.length == numParts, "number of participants must be 2");
+    const dataFrom = decode(from.appData, "invalid old appData length");
+    const dataTo = decode(to.appData, "invalid new appData length");
+    check(dataFrom.next == actorIdx, "actor not allowed to move");
+    check(dataTo.next == numParts - 1 - actorIdx, "next actor must alternate");
+
+    let changed = 0;
+    for (let i = 0; i < numFields; i++) {
+      if (dataFrom.grid[i] != dataTo.grid[i]) {
+        check(dataFrom.grid[i] == 0, "field already marked");
+        check(dataTo.grid[i] == actorIdx + 1, "invalid mark");
+        changed++;
+      }
+    }
+    check(changed == 1, "exactly one field must be marked");
+
+    const winner = dataTo.winner();
+    if (winner === undefined && !dataTo.full()) {
+      check(!to.isFinal, "state must not be final");
+    } else {
+      check(to.isFinal, "state must be final");
+    }
+    to.outcome.balances.forEach((balances, i) => {
+      if (winner === undefined) {
+        for (let k = 0; k < numParts; k++) {
+          check(new BN(balances[k]).eq(new BN(from.outcome.balances[i][k])), "balances must not change");
+        }
+      } else {
+        check(new BN(balances[numParts - 1 - winner]).isZero(), "winner must receive all funds");
+      }
+    });
+  }
+}
+
+// move returns the state after the participant whose turn it is marks
+// `field`. If the move wins the game, the winner receives all funds.
+export function move(from: State, field: number): State {
+  let data = TicTacToeData.decode(from.appData);
+  if (from.isFinal) {
+    throw new Error("game is over");
+  }
+  if (field < 0 || field >= numFields || data.grid[field] != 0) {
+    throw new Error(`field ${field} cannot be marked`);
+  }
+  data.grid[field] = data.next + 1;
+  data.next = numParts - 1 - data.next;
+
+  let to = State.deserialize(from.serialize());
+  to.incrementVersion();
+  to.appData = data.encode();
+  const winner = data.winner();
+  to.isFinal = winner !== undefined || data.full();
+  if (winner !== undefined) {
+    to.outcome.balances = to.outcome.balances.map(balances => {
+      const sum = balances.reduce((acc, bal) => acc.add(new BN(bal)), new BN(0));
+      return balances.map((_, k) => k == winner ? sum.toString() : "0");
+    });
+  }
+  return to;
+}
+
+function decode(appData: string, reason: string): TicTacToeData {
+  try {
+    return TicTacToeData.decode(appData);
+  } catch (err) {
+    throw new Error(reason);
+  }
+}
+
+function check(cond: boolean, reason: string) {
+  if (!cond) {
+    throw new Error(reason);
+  }
+}
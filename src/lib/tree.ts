@@ -0,0 +1,119 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import BN from "bn.js";
+import { Channel, State, SubAlloc } from "../test/Channel";
+
+/**
+ * ChannelTree links a ledger channel to its sub-channels. The children of a
+ * node are in the order of the sub-allocations in `state.outcome.locked`.
+ */
+export class ChannelTree {
+  channel: Channel;
+  children: ChannelTree[];
+
+  constructor(channel: Channel, children: ChannelTree[] = []) {
+    this.channel = channel;
+    this.children = children;
+  }
+
+  // fromChannels builds the tree below `root` by looking up the sub-channel
+  // of every sub-allocation in `channels`.
+  static fromChannels(root: Channel, channels: Channel[]): ChannelTree {
+    let byID = new Map<string, Channel>();
+    channels.forEach(ch => byID.set(ch.state.channelID.toLowerCase(), ch));
+    const build = (channel: Channel): ChannelTree => new ChannelTree(channel,
+      channel.state.outcome.locked.map(sub => {
+        const child = byID.get(sub.ID.toLowerCase());
+        if (child === undefined) {
+          throw new Error(`sub-channel ${sub.ID} not found`);
+        }
+        return build(child);
+      }));
+    return build(root);
+  }
+
+  channelID(): string {
+    return this.channel.state.channelID;
+  }
+
+  // subChannels returns all channels below the root in depth-first order.
+  subChannels(): Channel[] {
+    return this.children.reduce((acc: Channel[], child) =>
+      acc.concat([child.channel], child.subChannels()), []);
+  }
+
+  // subStates returns the states of all channels below the root in the
+  // depth-first order that is expected by `conclude`.
+  subStates(): State[] {
+    return this.subChannels().map(ch => ch.state);
+  }
+
+  // total returns the funds of every asset that are held by the channel and
+  // its sub-channels.
+  total(): BN[] {
+    const outcome = this.channel.state.outcome;
+    return outcome.assets.map((_, a) => outcome.balances[a].reduce(
+      (acc, bal) => acc.add(new BN(bal)),
+      outcome.locked.reduce((acc, sub) => acc.add(new BN(sub.balances[a])), new BN(0))));
+  }
+
+  // subAlloc returns the sub-allocation of the root channel in its parent.
+  subAlloc(): SubAlloc {
+    return new SubAlloc(this.channelID(), this.total().map(bal => bal.toString()));
+  }
+
+  // outcome returns the accumulated outcome per asset and participant of the
+  // root channel as it is pushed to the AssetHolders by `conclude`.
+  outcome(): BN[][] {
+    const outcome = this.channel.state.outcome;
+    const subStates = this.subStates();
+    return outcome.assets.map((_, a) => this.channel.params.participants.map((_, p) =>
+      subStates.reduce((acc, sub) => acc.add(new BN(sub.outcome.balances[a][p])), new BN(outcome.balances[a][p]))));
+  }
+
+  // validate throws if the tree would be rejected by `conclude` or if a
+  // sub-allocation does not lock the total funds of its sub-channel.
+  validate() {
+    const root = this.channel;
+    const numParts = root.params.participants.length;
+    const visit = (node: ChannelTree) => {
+      const outcome = node.channel.state.outcome;
+      if (node.children.length != outcome.locked.length) {
+        throw new Error(`channel ${node.channelID()} has ${outcome.locked.length} sub-allocations but ${node.children.length} sub-channels`);
+      }
+      if (outcome.assets.length != root.state.outcome.assets.length
+        || outcome.assets.some((asset, a) => asset.toLowerCase() != root.state.outcome.assets[a].toLowerCase())) {
+        throw new Error(`channel ${node.channelID()}: assets do not match`);
+      }
+      outcome.balances.forEach((bals, a) => {
+        if (bals.length != numParts) {
+          throw new Error(`channel ${node.channelID()} has ${bals.length} balances of asset ${a} for ${numParts} participants`);
+        }
+      });
+      node.children.forEach((child, i) => {
+        const sub = outcome.locked[i];
+        if (sub.ID.toLowerCase() != child.channelID().toLowerCase()) {
+          throw new Error(`channel ${node.channelID()}: invalid channel ID ${child.channelID()} of sub-channel ${i}`);
+        }
+        const total = child.total();
+        if (sub.balances.length != total.length || total.some((bal, a) => !bal.eq(new BN(sub.balances[a])))) {
+          throw new Error(`channel ${node.channelID()}: locked balances of sub-channel ${sub.ID} do not match its total`);
+        }
+        visit(child);
+      });
+    };
+    visit(this);
+  }
+}
@@ -0,0 +1,347 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// This file mirrors the checks of the Adjudicator so that transactions that
+// would revert can be detected before they are sent. Every check function
+// returns the violations in the order in which the Adjudicator checks them,
+// so the first violation carries the revert reason of the transaction.
+// The parameter `now` is the timestamp of the block the transaction is
+// expected to be mined in. Typed-data signatures are only accepted if the
+// EIP-712 `domain` of the Adjudicator is given.
+
+import BN from "bn.js";
+import { DisputePhase, Params, State, Allocation } from "../test/Channel";
+import { hash } from "./web3";
+import { Dispute, registered } from "./adjudicator";
+import { TypedDataDomain } from "./eip712";
+import { recoverStateSigner, verifyStateSignature } from "./sig";
+import { OffChainApp, AppRegistry } from "./app";
+
+const zeroAddress = "0x0000000000000000000000000000000000000000";
+
+// Violation is a rule of the Adjudicator that a transaction would violate.
+export interface Violation {
+  // The revert reason of the Adjudicator.
+  reason: string;
+  // A human-readable description of the violation.
+  detail: string;
+}
+
+function violation(reason: string, detail: string): Violation {
+  return { reason: reason, detail: detail };
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() == b.toLowerCase();
+}
+
+// checkParams mirrors `requireValidParams`.
+export function checkParams(params: Params, state: State): Violation[] {
+  if (state.channelID.toLowerCase() != params.channelID().toLowerCase()) {
+    return [violation("invalid params",
+      `state channel ID ${state.channelID} does not match params channel ID ${params.channelID()}`)];
+  }
+  return [];
+}
+
+// checkSignature mirrors `Channel.verifySignature`. A malformed signature
+// reverts with the reason of `ECDSA.recover`.
+export function checkSignature(state: State, sig: string, signer: string, domain?: TypedDataDomain): Violation[] {
+  if (verifyStateSignature(state, sig, signer, domain)) {
+    return [];
+  }
+  try {
+    recoverStateSigner(state, sig);
+  } catch (err) {
+    return [violation(err.message, `malformed signature of ${signer}`)];
+  }
+  return [violation("invalid signature", `state is not signed by ${signer}`)];
+}
+
+// checkSignatures mirrors `Channel.validateSignatures`.
+export function checkSignatures(params: Params, state: State, sigs: string[], domain?: TypedDataDomain): Violation[] {
+  if (params.participants.length != sigs.length) {
+    return [violation("signatures length mismatch",
+      `got ${sigs.length} signatures for ${params.participants.length} participants`)];
+  }
+  let violations: Violation[] = [];
+  sigs.forEach((sig, i) => violations.push(...checkSignature(state, sig, params.participants[i], domain)));
+  return violations;
+}
+
+// checkAssetPreservation mirrors `requireAssetPreservation`.
+export function checkAssetPreservation(oldAlloc: Allocation, newAlloc: Allocation, numParts: number): Violation[] {
+  let violations: Violation[] = [];
+  if (oldAlloc.balances.length != newAlloc.balances.length) {
+    violations.push(violation("balances length mismatch",
+      `old state has balances for ${oldAlloc.balances.length} assets, new state for ${newAlloc.balances.length}`));
+  }
+  if (oldAlloc.assets.length != newAlloc.assets.length) {
+    violations.push(violation("assets length mismatch",
+      `old state has ${oldAlloc.assets.length} assets, new state has ${newAlloc.assets.length}`));
+  }
+  if (oldAlloc.locked.length != 0) {
+    violations.push(violation("funds locked in old state", "old state has sub-allocations"));
+  }
+  if (newAlloc.locked.length != 0) {
+    violations.push(violation("funds locked in new state", "new state has sub-allocations"));
+  }
+  for (let i = 0; i < newAlloc.assets.length; i++) {
+    if (i >= oldAlloc.assets.length || !sameAddress(oldAlloc.assets[i], newAlloc.assets[i])) {
+      violations.push(violation("assets[i] address mismatch", `asset ${i} differs between old and new state`));
+      continue;
+    }
+    const oldBals = oldAlloc.balances[i] || [];
+    const newBals = newAlloc.balances[i] || [];
+    if (oldBals.length != numParts) {
+      violations.push(violation("old balances length mismatch",
+        `old state has ${oldBals.length} balances of asset ${i} for ${numParts} participants`));
+    }
+    if (newBals.length != numParts) {
+      violations.push(violation("new balances length mismatch",
+        `new state has ${newBals.length} balances of asset ${i} for ${numParts} participants`));
+    }
+    if (oldBals.length != numParts || newBals.length != numParts) {
+      continue;
+    }
+    const sumOld = sum(oldBals);
+    const sumNew = sum(newBals);
+    if (!sumOld.eq(sumNew)) {
+      violations.push(violation("sum of balances mismatch",
+        `sum of asset ${i} changes from ${sumOld} to ${sumNew}`));
+    }
+  }
+  return violations;
+}
+
+// checkRegister mirrors the checks of `register`.
+export function checkRegister(
+  params: Params,
+  state: State,
+  sigs: string[],
+  dispute: Dispute,
+  now: number,
+  domain?: TypedDataDomain): Violation[]
+{
+  let violations = checkParams(params, state);
+  violations.push(...checkSignatures(params, state, sigs, domain));
+  if (registered(dispute)) {
+    if (!new BN(dispute.version).lt(new BN(state.version))) {
+      violations.push(violation("invalid version",
+        `registered version ${dispute.version} is not lower than ${state.version}`));
+    }
+    if (dispute.phase != DisputePhase.DISPUTE) {
+      violations.push(violation("incorrect phase", `channel is in phase ${DisputePhase[dispute.phase]}`));
+    }
+    if (now >= dispute.timeout) {
+      violations.push(violation("refutation timeout passed", `refutation timeout passed at ${dispute.timeout}`));
+    }
+  }
+  return violations;
+}
+
+// checkTransition mirrors `requireValidTransition`. The app-specific rules
+// are only checked if the off-chain twin of the app is given.
+export function checkTransition(params: Params, from: State, to: State, actorIdx: number, app?: OffChainApp): Violation[] {
+  let violations: Violation[] = [];
+  if (!new BN(to.version).eq(new BN(from.version).addn(1))) {
+    violations.push(violation("version must increment by one",
+      `version ${to.version} does not follow ${from.version}`));
+  }
+  if (from.isFinal) {
+    violations.push(violation("cannot progress from final state", "old state is final"));
+  }
+  violations.push(...checkAssetPreservation(from.outcome, to.outcome, params.participants.length));
+  if (app !== undefined) {
+    try {
+      app.validTransition(params, from, to, actorIdx);
+    } catch (err) {
+      violations.push(violation(err.message, `app ${params.app} rejected the transition`));
+    }
+  }
+  return violations;
+}
+
+// checkProgress mirrors the checks of `progress`. The app-specific
+// transition rules are only checked if a registry of app twins is given, in
+// which case an unknown app is reported as "unknown app".
+export function checkProgress(
+  params: Params,
+  stateOld: State,
+  state: State,
+  actorIdx: number,
+  sig: string,
+  dispute: Dispute,
+  now: number,
+  domain?: TypedDataDomain,
+  apps?: AppRegistry): Violation[]
+{
+  if (!registered(dispute)) {
+    return [violation("not registered", `channel ${state.channelID} is not registered`)];
+  }
+  let violations: Violation[] = [];
+  if (dispute.phase == DisputePhase.DISPUTE) {
+    if (now < dispute.timeout) {
+      violations.push(violation("timeout not passed", `dispute timeout passes at ${dispute.timeout}`));
+    }
+  } else if (dispute.phase == DisputePhase.FORCEEXEC) {
+    if (now >= dispute.timeout) {
+      violations.push(violation("timeout passed", `progression timeout passed at ${dispute.timeout}`));
+    }
+  } else {
+    violations.push(violation("invalid phase", "channel is already concluded"));
+  }
+
+  if (sameAddress(params.app, zeroAddress)) {
+    violations.push(violation("must have app", "channel has no app"));
+  }
+  const validActor = actorIdx < params.participants.length;
+  if (!validActor) {
+    violations.push(violation("actorIdx out of range",
+      `actor index ${actorIdx} out of range for ${params.participants.length} participants`));
+  }
+  violations.push(...checkParams(params, state));
+  if (dispute.stateHash != hash(stateOld.encode())) {
+    violations.push(violation("wrong old state", "old state does not match the registered state"));
+  }
+  if (validActor) {
+    violations.push(...checkSignature(state, sig, params.participants[actorIdx], domain));
+  }
+
+  const app = apps !== undefined ? apps.get(params.app) : undefined;
+  if (apps !== undefined && app === undefined) {
+    violations.push(violation("unknown app", `no off-chain twin of app ${params.app} registered`));
+  }
+  violations.push(...checkTransition(params, stateOld, state, actorIdx, app));
+  return violations;
+}
+
+// checkConcluded mirrors `ensureConcluded`.
+function checkConcluded(state: State, dispute: Dispute | undefined, now: number): Violation[] {
+  if (dispute === undefined || !registered(dispute)) {
+    return [violation("not registered", `channel ${state.channelID} is not registered`)];
+  }
+  if (dispute.stateHash != hash(state.encode())) {
+    return [violation("invalid channel state", `state of channel ${state.channelID} is not the registered state`)];
+  }
+  if (dispute.phase == DisputePhase.CONCLUDED) {
+    return [];
+  }
+  let timeout = dispute.timeout;
+  if (dispute.phase == DisputePhase.DISPUTE && dispute.hasApp) {
+    timeout += dispute.challengeDuration;
+  }
+  if (now < timeout) {
+    return [violation("timeout not passed yet", `channel ${state.channelID} can be concluded at ${timeout}`)];
+  }
+  return [];
+}
+
+// checkConclude mirrors the checks of `conclude`. The disputes of the channel
+// and all sub-channels are looked up in `disputes` by channel ID.
+export function checkConclude(
+  params: Params,
+  state: State,
+  subStates: State[],
+  disputes: Map<string, Dispute>,
+  now: number): Violation[]
+{
+  const dispute = disputes.get(state.channelID);
+  if (dispute === undefined || !registered(dispute)) {
+    return [violation("not registered", `channel ${state.channelID} is not registered`)];
+  }
+  if (dispute.phase == DisputePhase.CONCLUDED) {
+    return [violation("channel already concluded", `channel ${state.channelID} is already concluded`)];
+  }
+  let violations = checkParams(params, state);
+  // A sub-channel may be reached through several paths of the tree, but the
+  // Adjudicator reverts only once, so each violation is reported once per
+  // channel.
+  let reported = new Set<string>();
+  const report = (channelID: string, vs: Violation[]) => vs.forEach(v => {
+    const key = `${v.reason}/${channelID.toLowerCase()}`;
+    if (!reported.has(key)) {
+      reported.add(key);
+      violations.push(v);
+    }
+  });
+
+  // ensureTreeConcluded
+  report(state.channelID, checkConcluded(state, dispute, now));
+  let index = 0;
+  const checkTree = (parent: State) => {
+    for (const sub of parent.outcome.locked) {
+      // The Adjudicator fails on the out-of-bounds access of the substate.
+      if (index >= subStates.length) {
+        violations.push(violation("invalid opcode",
+          `missing substate for sub-channel ${sub.ID}`));
+        return;
+      }
+      const subState = subStates[index];
+      if (sub.ID.toLowerCase() != subState.channelID.toLowerCase()) {
+        report(sub.ID, [violation("invalid channel ID",
+          `substate ${index} belongs to ${subState.channelID}, expected ${sub.ID}`)]);
+      }
+      report(subState.channelID, checkConcluded(subState, disputes.get(subState.channelID), now));
+      index++;
+      if (subState.outcome.locked.length > 0) {
+        checkTree(subState);
+      }
+    }
+  };
+  checkTree(state);
+  if (index != subStates.length) {
+    violations.push(violation("wrong number of substates",
+      `got ${subStates.length} substates for ${index} sub-channels`));
+  }
+
+  // pushOutcome
+  state.outcome.assets.forEach((asset, a) => {
+    subStates.forEach(subState => {
+      const subAsset = subState.outcome.assets[a];
+      if (subAsset === undefined || !sameAddress(subAsset, asset)) {
+        report(subState.channelID, [violation("assets do not match",
+          `asset ${a} of sub-channel ${subState.channelID} does not match`)]);
+      }
+    });
+  });
+  return violations;
+}
+
+// checkConcludeFinal mirrors the checks of `concludeFinal`.
+export function checkConcludeFinal(
+  params: Params,
+  state: State,
+  sigs: string[],
+  dispute: Dispute,
+  domain?: TypedDataDomain): Violation[]
+{
+  let violations: Violation[] = [];
+  if (!state.isFinal) {
+    violations.push(violation("state not final", "state is not final"));
+  }
+  if (state.outcome.locked.length != 0) {
+    violations.push(violation("cannot have sub-channels", "final state has sub-allocations"));
+  }
+  violations.push(...checkParams(params, state));
+  violations.push(...checkSignatures(params, state, sigs, domain));
+  if (registered(dispute) && dispute.phase == DisputePhase.CONCLUDED) {
+    violations.push(violation("channel already concluded", `channel ${state.channelID} is already concluded`));
+  }
+  return violations;
+}
+
+function sum(vals: string[]): BN {
+  return vals.reduce((acc, val) => acc.add(new BN(val)), new BN(0));
+}
@@ -0,0 +1,117 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import Web3 from "web3";
+declare const web3: Web3;
+import BN from "bn.js";
+import { DisputePhase, Params, State } from "../test/Channel";
+import { AdjudicatorClient, ChannelUpdate } from "./adjudicator";
+import { currentTimestamp } from "./web3";
+import { ChannelStore } from "./store";
+import { Poller } from "./poller";
+
+/**
+ * Watchtower watches the Adjudicator for registrations of channels and
+ * refutes every registration with an older version than the newest fully
+ * signed state in its store.
+ *
+ * Emits:
+ * - `refuted` (update: ChannelUpdate) when a registration was refuted.
+ */
+export class Watchtower extends Poller {
+  client: AdjudicatorClient;
+  store: ChannelStore;
+  private channels: Set<string>;
+  private fromBlock: number;
+
+  constructor(client: AdjudicatorClient, fromBlock: number = 0, store: ChannelStore = new ChannelStore()) {
+    super();
+    this.client = client;
+    this.store = store;
+    this.channels = new Set();
+    this.fromBlock = fromBlock;
+  }
+
+  // watch starts watching the channel and stores the state if it is newer
+  // than the stored one. Older states are ignored.
+  async watch(params: Params, state: State, sigs: string[]) {
+    const known = await this.store.latest(state.channelID);
+    if (known === undefined || new BN(known.state.version).lt(new BN(state.version))) {
+      await this.store.put(params, state, sigs);
+    }
+    this.channels.add(state.channelID);
+  }
+
+  // unwatch stops watching the channel. Its states remain in the store.
+  unwatch(channelID: string) {
+    this.channels.delete(channelID);
+  }
+
+  // poll processes all `ChannelUpdate` events since the last poll and
+  // refutes stale registrations. It returns the updates of the refutations.
+  async poll(): Promise<ChannelUpdate[]> {
+    if (this.channels.size == 0) {
+      return [];
+    }
+    const toBlock = await web3.eth.getBlockNumber();
+    if (toBlock < this.fromBlock) {
+      return [];
+    }
+    const updates = await this.client.channelUpdates(
+      Array.from(this.channels), this.fromBlock, toBlock);
+
+    // Only the last update of every channel is relevant.
+    let latest = new Map<string, ChannelUpdate>();
+    updates.forEach(update => latest.set(update.channelID, update));
+
+    let refutations: ChannelUpdate[] = [];
+    let failure: Error | undefined;
+    for (const update of latest.values()) {
+      try {
+        const refutation = await this.refute(update);
+        if (refutation !== undefined) {
+          refutations.push(refutation);
+        }
+      } catch (err) {
+        failure = failure ?? err;
+      }
+    }
+    // The blocks are polled again until all refutations succeeded. Refuted
+    // channels are skipped then because their last update is the refutation.
+    if (failure !== undefined) {
+      throw failure;
+    }
+    this.fromBlock = toBlock + 1;
+    return refutations;
+  }
+
+  private async refute(update: ChannelUpdate): Promise<ChannelUpdate | undefined> {
+    const known = this.channels.has(update.channelID) ? await this.store.latest(update.channelID) : undefined;
+    if (known === undefined
+      || update.phase != DisputePhase.DISPUTE
+      || !new BN(update.version).lt(new BN(known.state.version))) {
+      return undefined;
+    }
+    // The refutation must be mined before the timeout.
+    if (await currentTimestamp() >= update.timeout) {
+      return undefined;
+    }
+    const res = await this.client.register(known.params, known.state, known.sigs);
+    const refutation = res.find(u => u.channelID == update.channelID);
+    if (refutation !== undefined) {
+      this.emit("refuted", refutation);
+    }
+    return refutation;
+  }
+}
@@ -0,0 +1,117 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assert, should } from "chai";
+should();
+const truffleAssert = require('truffle-assertions');
+import {
+  AdjudicatorContract,
+  TrivialAppContract,
+  AssetHolderETHContract,
+} from "../../types/truffle-contracts";
+import { DisputePhase, Transaction } from "./Channel";
+import { ether } from "../lib/web3";
+import { advanceBlockTime, describeWithBlockRevert } from "../lib/test";
+import { AdjudicatorClient, ChannelUpdate, registered } from "../lib/adjudicator";
+
+const Adjudicator = artifacts.require<AdjudicatorContract>("Adjudicator");
+const TrivialApp = artifacts.require<TrivialAppContract>("TrivialApp");
+const AssetHolderETH = artifacts.require<AssetHolderETHContract>("AssetHolderETH");
+
+contract("AdjudicatorClient", async (accounts) => {
+  let client: AdjudicatorClient;
+  let app = "";
+  let asset = "";
+  const parts = [accounts[1], accounts[2]];
+  const balance = [ether(1), ether(2)];
+  const timeout = 60;
+
+  function newTransaction(nonce: string, version: string): Transaction {
+    let tx = new Transaction(parts, balance, timeout, nonce, asset, app);
+    tx.state.version = version;
+    return tx;
+  }
+
+  function assertUpdate(update: ChannelUpdate, tx: Transaction, phase: DisputePhase) {
+    assert(update.channelID == tx.params.channelID(), "wrong channelID");
+    assert(update.version == tx.state.version, "wrong version");
+    assert(update.phase == phase, "wrong phase");
+  }
+
+  before(async () => {
+    const adj = await Adjudicator.new();
+    client = new AdjudicatorClient(adj, accounts[0]);
+    app = (await TrivialApp.new()).address;
+    asset = (await AssetHolderETH.new(adj.address)).address;
+  });
+
+  describeWithBlockRevert("register, progress and conclude", () => {
+    const tx = () => newTransaction("1", "2");
+
+    it("unregistered channel has no dispute", async () => {
+      const dispute = await client.dispute(tx().params.channelID());
+      assert(!registered(dispute), "channel registered");
+    });
+
+    it("register returns update", async () => {
+      let t = tx();
+      await t.sign(parts);
+      const updates = await client.register(t.params, t.state, t.sigs);
+      assert(updates.length == 1, "wrong number of updates");
+      assertUpdate(updates[0], t, DisputePhase.DISPUTE);
+
+      const dispute = await client.dispute(t.params.channelID());
+      assert(registered(dispute), "channel not registered");
+      assert(dispute.timeout == updates[0].timeout, "wrong timeout");
+      assert(dispute.challengeDuration == timeout, "wrong challenge duration");
+      assert(dispute.hasApp, "app not set");
+    });
+
+    it("register with invalid signature reverts", async () => {
+      let t = newTransaction("1", "3");
+      await t.sign([parts[0], parts[0]]);
+      await truffleAssert.reverts(client.register(t.params, t.state, t.sigs), "invalid signature");
+    });
+
+    it("progress returns update", async () => {
+      await advanceBlockTime(timeout + 1);
+      let t = newTransaction("1", "3");
+      await t.sign(parts);
+      const updates = await client.progress(t.params, tx().state, t.state, 0, t.sigs[0]);
+      assert(updates.length == 1, "wrong number of updates");
+      assertUpdate(updates[0], t, DisputePhase.FORCEEXEC);
+    });
+
+    it("conclude returns update", async () => {
+      await advanceBlockTime(timeout + 1);
+      let t = newTransaction("1", "3");
+      const updates = await client.conclude(t.params, t.state);
+      assert(updates.length == 1, "wrong number of updates");
+      assertUpdate(updates[0], t, DisputePhase.CONCLUDED);
+    });
+  });
+
+  describeWithBlockRevert("concludeFinal", () => {
+    it("concludeFinal returns update", async () => {
+      let t = newTransaction("2", "1");
+      t.state.isFinal = true;
+      await t.sign(parts);
+      const updates = await client.concludeFinal(t.params, t.state, t.sigs);
+      assert(updates.length == 1, "wrong number of updates");
+      assertUpdate(updates[0], t, DisputePhase.CONCLUDED);
+      const dispute = await client.dispute(t.params.channelID());
+      assert(dispute.phase == DisputePhase.CONCLUDED, "wrong phase");
+    });
+  });
+});
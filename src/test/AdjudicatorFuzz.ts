@@ -0,0 +1,253 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// This test runs random sequences of Adjudicator calls against both the
+// contracts and the reference model and asserts that they agree. A failing
+// sequence can be replayed by setting FUZZ_SEED to the seed in the error.
+
+import { assert, should } from "chai";
+should();
+import BN from "bn.js";
+import Web3 from "web3";
+declare const web3: Web3;
+import {
+  AdjudicatorContract,
+  AdjudicatorInstance,
+  TrivialAppContract,
+  AssetHolderETHContract,
+  AssetHolderETHInstance,
+} from "../../types/truffle-contracts";
+import { Allocation, DisputePhase, Params, State, SubAlloc } from "./Channel";
+import { currentTimestamp } from "../lib/web3";
+import { advanceBlockTime, fundingID, fuzzSeed, itWithBlockRevert, random } from "../lib/test";
+import { AdjudicatorClient } from "../lib/adjudicator";
+import { AppRegistry, OffChainTrivialApp } from "../lib/app";
+import { AdjudicatorModel } from "../lib/model";
+
+const Adjudicator = artifacts.require<AdjudicatorContract>("Adjudicator");
+const TrivialApp = artifacts.require<TrivialAppContract>("TrivialApp");
+const AssetHolderETH = artifacts.require<AssetHolderETHContract>("AssetHolderETH");
+
+const zeroAddress = "0x0000000000000000000000000000000000000000";
+// Time jumps are multiples of `timeStep`, which keeps every timeout at least
+// 100 seconds away from the block time and makes the comparisons of both
+// sides independent of the time it takes to mine blocks.
+const challengeDuration = 1000;
+const timeStep = 300;
+const runs = 3;
+const steps = 40;
+
+// FuzzChannel is a channel of the generated channel trees.
+interface FuzzChannel {
+  params: Params;
+  id: string;
+  total: BN;
+  children: FuzzChannel[];
+  // The state that is registered for the channel.
+  latest?: State;
+}
+
+contract("Adjudicator fuzzing", async (accounts) => {
+  let adj: AdjudicatorInstance;
+  let client: AdjudicatorClient;
+  let ah: AssetHolderETHInstance;
+  let app = "";
+  const parts = [accounts[1], accounts[2]];
+  const baseSeed = fuzzSeed();
+
+  before(async () => {
+    adj = await Adjudicator.new();
+    client = new AdjudicatorClient(adj, accounts[0]);
+    ah = await AssetHolderETH.new(adj.address);
+    app = (await TrivialApp.new()).address;
+  });
+
+  for (let run = 0; run < runs; run++) {
+    itWithBlockRevert(`agrees with the reference model (run ${run})`, async () => {
+      const seed = baseSeed + run;
+      const rand = random(seed);
+      const randInt = (n: number) => Math.floor(rand() * n);
+      const chance = (p: number) => rand() < p;
+      const pick = <T>(xs: T[]) => xs[randInt(xs.length)];
+      const randomHex = (bytes: number) =>
+        web3.utils.bytesToHex(Array.from({ length: bytes }, () => randInt(256)));
+
+      let apps = new AppRegistry();
+      apps.register(app, new OffChainTrivialApp());
+      let model = new AdjudicatorModel(apps);
+      let channels: FuzzChannel[] = [];
+
+      function newChannel(withApp: boolean, depth: number): FuzzChannel {
+        const params = new Params(withApp ? app : zeroAddress, challengeDuration, randomHex(32), parts);
+        const children = depth > 0 ? Array.from({ length: randInt(3) }, () => newChannel(chance(0.5), depth - 1)) : [];
+        const ch = { params: params, id: params.channelID(), total: new BN(1 + randInt(1000)), children: children };
+        channels.push(ch);
+        return ch;
+      }
+
+      function randomState(ch: FuzzChannel, version: number): State {
+        const bal = new BN(randInt(ch.total.toNumber() + 1));
+        const locked = chance(0.9) ? ch.children.map(child => new SubAlloc(child.id, [])) : [];
+        const outcome = new Allocation([ah.address], [[bal.toString(), ch.total.sub(bal).toString()]], locked);
+        return new State(ch.id, version.toString(), outcome, randomHex(1 + randInt(4)), chance(0.1));
+      }
+
+      async function randomSigs(state: State): Promise<string[]> {
+        const sigs = await state.sign(parts);
+        return chance(0.85) ? sigs : chance(0.5) ? sigs.reverse() : sigs.slice(1);
+      }
+
+      function modelVersion(ch: FuzzChannel): number {
+        return Number(model.dispute(ch.id).version);
+      }
+
+      // subStatesOf returns the registered states of the sub-channels of
+      // `state` in depth-first order.
+      function subStatesOf(state: State): State[] {
+        let subStates: State[] = [];
+        for (const sub of state.outcome.locked) {
+          const ch = channels.find(c => c.id == sub.ID)!;
+          const subState = ch.latest !== undefined ? ch.latest : randomState(ch, 1);
+          subStates.push(subState, ...subStatesOf(subState));
+        }
+        return subStates;
+      }
+
+      // exec sends the transaction and applies the operation to the model
+      // with the timestamp of the block of the transaction.
+      async function exec(
+        desc: string,
+        tx: () => Promise<Truffle.TransactionResponse>,
+        op: (now: number) => void): Promise<boolean>
+      {
+        let res: Truffle.TransactionResponse | undefined;
+        let chainErr: Error | undefined;
+        try {
+          res = await tx();
+        } catch (err) {
+          chainErr = err;
+        }
+        const now = res !== undefined
+          ? Number((await web3.eth.getBlock(res.receipt.blockNumber)).timestamp)
+          : await currentTimestamp();
+        try {
+          op(now);
+        } catch (err) {
+          assert(chainErr !== undefined, `seed ${seed}, ${desc}: model reverted with "${err.message}", contracts succeeded`);
+          assert(chainErr!.message.includes(err.message),
+            `seed ${seed}, ${desc}: model reverted with "${err.message}", contracts with "${chainErr!.message}"`);
+          return false;
+        }
+        assert(chainErr === undefined, `seed ${seed}, ${desc}: contracts reverted with "${chainErr}", model succeeded`);
+        return true;
+      }
+
+      async function register(ch: FuzzChannel) {
+        const state = randomState(ch, Math.max(0, modelVersion(ch) + randInt(4) - 1));
+        const sigs = await randomSigs(state);
+        if (await exec(`register ${state.version}`,
+          () => adj.register(ch.params.serialize(), state.serialize(), sigs),
+          now => model.register(ch.params, state, sigs, now))) {
+          ch.latest = state;
+        }
+      }
+
+      async function progress(ch: FuzzChannel) {
+        const from = ch.latest !== undefined ? ch.latest : randomState(ch, 1);
+        let to = randomState(ch, Number(from.version) + (chance(0.85) ? 1 : 2));
+        to.outcome.locked = [];
+        if (chance(0.1)) {
+          to.outcome.balances[0][0] = ch.total.addn(1).toString();
+        }
+        const actorIdx = chance(0.95) ? randInt(2) : 2;
+        const signer = chance(0.9) && actorIdx < parts.length ? parts[actorIdx] : pick(parts);
+        const sig = (await to.sign([signer]))[0];
+        if (await exec(`progress ${from.version} -> ${to.version} by ${actorIdx}`,
+          () => adj.progress(ch.params.serialize(), from.serialize(), to.serialize(), actorIdx, sig),
+          now => model.progress(ch.params, from, to, actorIdx, sig, now))) {
+          ch.latest = to;
+        }
+      }
+
+      async function conclude(ch: FuzzChannel) {
+        const state = ch.latest !== undefined && chance(0.9) ? ch.latest : randomState(ch, 1);
+        let subStates = subStatesOf(state);
+        if (chance(0.1)) {
+          subStates.push(randomState(pick(channels), 1));
+        }
+        await exec(`conclude with ${subStates.length} sub-states`,
+          () => adj.conclude(ch.params.serialize(), state.serialize(), subStates.map(s => s.serialize())),
+          now => model.conclude(ch.params, state, subStates, now));
+      }
+
+      async function concludeFinal(ch: FuzzChannel) {
+        let state = randomState(ch, Math.max(0, modelVersion(ch) + randInt(3) - 1));
+        state.isFinal = chance(0.85);
+        if (chance(0.8)) {
+          state.outcome.locked = [];
+        }
+        const sigs = await randomSigs(state);
+        if (await exec(`concludeFinal ${state.version}`,
+          () => adj.concludeFinal(ch.params.serialize(), state.serialize(), sigs),
+          now => model.concludeFinal(ch.params, state, sigs, now))) {
+          ch.latest = state;
+        }
+      }
+
+      async function compareHoldings() {
+        for (const ch of channels) {
+          for (const id of [ch.id, ...parts.map(part => fundingID(ch.id, part))]) {
+            const held = await ah.holdings.call(id);
+            held.toString().should.equal(model.holding(ah.address, id).toString(), `seed ${seed}: holdings of ${id}`);
+          }
+        }
+      }
+
+      const roots = [newChannel(true, 2), newChannel(false, 0)];
+      for (const root of roots) {
+        for (const part of parts) {
+          const amount = new BN(randInt(root.total.toNumber()));
+          const id = fundingID(root.id, part);
+          await ah.deposit(id, amount, { value: amount, from: part });
+          model.deposit(ah.address, id, amount);
+        }
+      }
+
+      for (let i = 0; i < steps; i++) {
+        // Most operations target registered channels that are not concluded
+        // to get past the first checks.
+        const active = channels.filter(c => c.latest !== undefined && model.dispute(c.id).phase != DisputePhase.CONCLUDED);
+        const ch = active.length > 0 && chance(0.7) ? pick(active) : pick(channels);
+        const op = randInt(10);
+        if (op < 3) {
+          await register(ch);
+        } else if (op < 5) {
+          await progress(ch);
+        } else if (op < 7) {
+          await conclude(ch);
+          await compareHoldings();
+        } else if (op < 8) {
+          await concludeFinal(ch);
+          await compareHoldings();
+        } else {
+          await advanceBlockTime(timeStep * (1 + randInt(4)));
+        }
+        for (const c of channels) {
+          (await client.dispute(c.id)).should.deep.equal(model.dispute(c.id), `seed ${seed}, step ${i}: dispute of ${c.id}`);
+        }
+      }
+      await compareHoldings();
+    });
+  }
+});
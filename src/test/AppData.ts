@@ -0,0 +1,102 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { should } from "chai";
+should();
+import Web3 from "web3";
+declare const web3: Web3;
+import { AbiItem } from "web3-utils";
+import { AdjudicatorContract } from "../../types/truffle-contracts";
+import { Params, State, Transaction } from "./Channel";
+import { ether } from "../lib/web3";
+import { AppDataCodec } from "../lib/codec";
+
+const Adjudicator = artifacts.require<AdjudicatorContract>("Adjudicator");
+// The typings of truffle lack the ABI of the contract abstractions.
+interface ContractAbi {
+  abi: AbiItem[];
+}
+const adjudicatorAbi = (Adjudicator as AdjudicatorContract & ContractAbi).abi;
+
+interface GameData {
+  round: string;
+  players: string[];
+  board: {
+    cells: string[];
+    over: boolean;
+  };
+}
+
+// ParamsData is `Channel.Params` as encoded by `Params.serialize`.
+interface ParamsData {
+  challengeDuration: number | string;
+  nonce: string;
+  app: string;
+  participants: string[];
+}
+
+contract("AppDataCodec", async (accounts) => {
+  const codec = new AppDataCodec<GameData>([
+    { name: "round", type: "uint64" },
+    { name: "players", type: "address[]" },
+    {
+      name: "board",
+      type: "tuple",
+      components: [
+        { name: "cells", type: "uint8[3]" },
+        { name: "over", type: "bool" },
+      ],
+    },
+  ]);
+  const data: GameData = {
+    round: "7",
+    players: [accounts[1], accounts[2]],
+    board: { cells: ["1", "0", "2"], over: false },
+  };
+
+  it("encodes the data as tuple", () => {
+    const appData = codec.encodeAppData(data);
+    appData.should.equal(web3.eth.abi.encodeParameter(
+      { Data: { round: "uint64", players: "address[]", board: { cells: "uint8[3]", over: "bool" } } }, data));
+  });
+
+  it("decodes plain objects", () => {
+    codec.decodeAppData(codec.encodeAppData(data)).should.deep.equal(data);
+  });
+
+  it("typed states", () => {
+    let state: State<GameData> = new Transaction(
+      [accounts[1], accounts[2]], [ether(1), ether(1)], 60, "1", accounts[3], accounts[4]).state;
+    state.encodeAppData(codec, data);
+    State.decode<GameData>(state.encode()).decodeAppData(codec).should.deep.equal(data);
+  });
+
+  describe("from ABI", () => {
+    it("uses the struct of the contract", () => {
+      const params = new Params(accounts[4], 60, "5", [accounts[1], accounts[2]]);
+      const paramsCodec = AppDataCodec.fromAbi<ParamsData>(adjudicatorAbi, "Channel.Params");
+      paramsCodec.encodeAppData(params.serialize()).should.equal(params.encode());
+      paramsCodec.decodeAppData(params.encode()).should.deep.equal({
+        challengeDuration: "60",
+        nonce: "5",
+        app: accounts[4],
+        participants: [accounts[1], accounts[2]],
+      });
+    });
+
+    it("unknown struct", () => {
+      (() => AppDataCodec.fromAbi(adjudicatorAbi, "Channel.Unknown")).should.throw("not found");
+    });
+  });
+});
@@ -156,6 +156,144 @@ export function genericAssetHolderTest(setup: AssetHolderSetup) {
     });
   })
 
+  describeWithBlockRevert("Batch withdraw", () => {
+    async function authorize(idx: number, amount: BN, signer: string = setup.parts[idx], nonce: string = "0") {
+      const auth = new Authorization(setup.channelID, setup.parts[idx], setup.recv[idx], amount.toString(), nonce);
+      return { auth: auth, sig: await sign(auth.encode(), signer) };
+    }
+
+    async function assertUnchanged() {
+      await assertHoldings(fundingID(setup.channelID, setup.parts[setup.A]), finalBalance[setup.A]);
+      await assertHoldings(fundingID(setup.channelID, setup.parts[setup.B]), finalBalance[setup.B]);
+    }
+
+    it("signatures length mismatch", async () => {
+      const a = await authorize(setup.A, finalBalance[setup.A]);
+      await truffleAssert.reverts(
+        setup.ah.withdrawBatch([a.auth], [a.sig, a.sig], { from: setup.txSender }),
+        "signatures length mismatch"
+      );
+    });
+
+    it("invalid signature reverts whole batch", async () => {
+      const a = await authorize(setup.A, finalBalance[setup.A]);
+      const b = await authorize(setup.B, finalBalance[setup.B], setup.parts[setup.A]);
+      await truffleAssert.reverts(
+        setup.ah.withdrawBatch([a.auth, b.auth], [a.sig, b.sig], { from: setup.txSender }),
+        "signature verification failed"
+      );
+      await assertUnchanged();
+    });
+
+    it("overdraw reverts whole batch", async () => {
+      const b = await authorize(setup.B, finalBalance[setup.B]);
+      const a1 = await authorize(setup.A, ether(15));
+      const a2 = await authorize(setup.A, ether(15), setup.parts[setup.A], "1");
+      await truffleAssert.reverts(
+        setup.ah.withdrawBatch([b.auth, a1.auth, a2.auth], [b.sig, a1.sig, a2.sig], { from: setup.txSender }),
+        "insufficient ETH for withdrawal"
+      );
+      await assertUnchanged();
+    });
+
+    it("A and B withdraw in one transaction", async () => {
+      const balancesBefore = await Promise.all(setup.recv.map(who => setup.balanceOf(who)));
+      const auths = await Promise.all([setup.A, setup.B].map(idx => authorize(idx, finalBalance[idx])));
+      const res = await setup.ah.withdrawBatch(auths.map(a => a.auth), auths.map(a => a.sig), { from: setup.txSender });
+      for (const idx of [setup.A, setup.B]) {
+        truffleAssert.eventEmitted(res, 'Withdrawn', (ev: any) => {
+          return ev.fundingID == fundingID(setup.channelID, setup.parts[idx])
+            && finalBalance[idx].eq(ev.amount)
+            && ev.receiver == setup.recv[idx];
+        });
+        await assertHoldings(fundingID(setup.channelID, setup.parts[idx]), ether(0));
+        const balanceAfter = await setup.balanceOf(setup.recv[idx]);
+        assert(balancesBefore[idx].add(finalBalance[idx]).eq(balanceAfter), "wrong receiver balance");
+      }
+    });
+  })
+
+  describeWithBlockRevert("Replay protection", () => {
+    let fid: string;
+    let authorization: Authorization;
+    let signature: string;
+
+    it("A withdraws part of its holdings", async () => {
+      fid = fundingID(setup.channelID, setup.parts[setup.A]);
+      authorization = new Authorization(setup.channelID, setup.parts[setup.A], setup.recv[setup.A], ether(5).toString());
+      signature = await sign(authorization.encode(), setup.parts[setup.A]);
+      await setup.ah.withdraw(authorization, signature, { from: setup.txSender });
+      (await setup.ah.withdrawalNonces.call(fid)).toString().should.equal("1");
+    });
+
+    it("replayed authorization fails", async () => {
+      await truffleAssert.reverts(
+        setup.ah.withdraw(authorization, signature, { from: setup.txSender }),
+        "invalid withdrawal nonce"
+      );
+      await assertHoldings(fid, finalBalance[setup.A].sub(ether(5)));
+    });
+
+    it("replayed authorization in batch fails", async () => {
+      let next = new Authorization(setup.channelID, setup.parts[setup.A], setup.recv[setup.A], ether(5).toString(), "1");
+      let nextSig = await sign(next.encode(), setup.parts[setup.A]);
+      await truffleAssert.reverts(
+        setup.ah.withdrawBatch([next, next], [nextSig, nextSig], { from: setup.txSender }),
+        "invalid withdrawal nonce"
+      );
+      await assertHoldings(fid, finalBalance[setup.A].sub(ether(5)));
+    });
+
+    it("A withdraws the rest with the next nonce", async () => {
+      let rest = finalBalance[setup.A].sub(ether(5));
+      let next = new Authorization(setup.channelID, setup.parts[setup.A], setup.recv[setup.A], rest.toString(), "1");
+      let nextSig = await sign(next.encode(), setup.parts[setup.A]);
+      await setup.ah.withdraw(next, nextSig, { from: setup.txSender });
+      await assertHoldings(fid, ether(0));
+      (await setup.ah.withdrawalNonces.call(fid)).toString().should.equal("2");
+    });
+  })
+
+  describeWithBlockRevert("Withdraw with fee", () => {
+    it("fee exceeds amount", async () => {
+      let authorization = new Authorization(setup.channelID, setup.parts[setup.A], setup.recv[setup.A], ether(1).toString(), "0", ether(2).toString());
+      let signature = await sign(authorization.encode(), setup.parts[setup.A]);
+      await truffleAssert.reverts(
+        setup.ah.withdraw(authorization, signature, { from: setup.txSender }),
+        "fee exceeds amount"
+      );
+    });
+
+    it("relayer receives the fee, not the sender", async () => {
+      const fee = ether(1);
+      const relayer = setup.accounts[6];
+      let authorization = new Authorization(setup.channelID, setup.parts[setup.A], setup.recv[setup.A],
+        finalBalance[setup.A].toString(), "0", fee.toString(), relayer);
+      let signature = await sign(authorization.encode(), setup.parts[setup.A]);
+      const recvBefore = await setup.balanceOf(setup.recv[setup.A]);
+      const relayerBefore = await setup.balanceOf(relayer);
+      const senderBefore = await setup.balanceOf(setup.txSender);
+      // The authorization is submitted by another account than the relayer. A
+      // gas price of zero keeps the ETH balance of the sender exact.
+      await setup.ah.withdraw(authorization, signature, { from: setup.txSender, gasPrice: 0 });
+      assert(recvBefore.add(finalBalance[setup.A]).sub(fee).eq(await setup.balanceOf(setup.recv[setup.A])), "wrong receiver balance");
+      assert(relayerBefore.add(fee).eq(await setup.balanceOf(relayer)), "wrong relayer balance");
+      assert(senderBefore.eq(await setup.balanceOf(setup.txSender)), "sender received fee");
+      await assertHoldings(fundingID(setup.channelID, setup.parts[setup.A]), ether(0));
+    });
+
+    it("relayer is signed", async () => {
+      let authorization = new Authorization(setup.channelID, setup.parts[setup.A], setup.recv[setup.A],
+        finalBalance[setup.A].toString(), "0", ether(1).toString(), setup.accounts[6]);
+      let signature = await sign(authorization.encode(), setup.parts[setup.A]);
+      authorization.relayer = setup.txSender;
+      await truffleAssert.reverts(
+        setup.ah.withdraw(authorization, signature, { from: setup.txSender }),
+        "signature verification failed"
+      );
+    });
+  })
+
   describe("Withdraw", () => {
     it("A withdraws with valid allowance", async () => {
       await testWithdraw(setup.A, finalBalance[setup.A], setup.channelID);
@@ -165,7 +303,7 @@ export function genericAssetHolderTest(setup: AssetHolderSetup) {
     })
 
     it("A fails to overdraw with valid allowance", async () => {
-      let authorization = new Authorization(setup.channelID, setup.parts[setup.A], setup.recv[setup.A], finalBalance[setup.A].toString());
+      let authorization = new Authorization(setup.channelID, setup.parts[setup.A], setup.recv[setup.A], finalBalance[setup.A].toString(), "1");
       let signature = await sign(authorization.encode(), setup.parts[setup.A]);
       return truffleAssert.reverts(
         setup.ah.withdraw(authorization, signature, { from: setup.txSender })
@@ -0,0 +1,108 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assert, should } from "chai";
+should();
+import Web3 from "web3";
+declare const web3: Web3;
+import {
+  AssetHolderETHContract,
+  AssetHolderERC20Contract,
+  PerunTokenContract,
+} from "../../types/truffle-contracts";
+import { ether, hash } from "../lib/web3";
+import { describeWithBlockRevert, itWithBlockRevert } from "../lib/test";
+import { AssetHolderClient, AssetHolderType } from "../lib/assetholder";
+import { PrivateKeySigner } from "../lib/signer";
+
+const AssetHolderETH = artifacts.require<AssetHolderETHContract>("AssetHolderETH");
+const AssetHolderERC20 = artifacts.require<AssetHolderERC20Contract>("AssetHolderERC20");
+const PerunToken = artifacts.require<PerunTokenContract>("PerunToken");
+
+contract("AssetHolderClient", async (accounts) => {
+  const adj = accounts[9];
+  const parts = [accounts[1], accounts[2]];
+  const receiver = accounts[3];
+
+  function testClient(name: string, type: AssetHolderType, deploy: () => Promise<string>) {
+    describeWithBlockRevert(name, () => {
+      const channelID = hash(web3.utils.randomHex(32));
+      // The second participant signs its withdrawal with a local key.
+      const local = new PrivateKeySigner(web3.eth.accounts.create().privateKey);
+      let clients: AssetHolderClient[];
+
+      before(async () => {
+        const address = await deploy();
+        clients = await Promise.all(parts.map(part => AssetHolderClient.at(address, part)));
+      });
+
+      it("detects type", () => {
+        clients[0].type.should.equal(type);
+      });
+
+      it("funds channel", async () => {
+        await clients[0].fund(channelID, parts[0], ether(1));
+        await clients[1].fund(channelID, local.address, ether(2));
+        const holding = await clients[0].holdings(clients[0].fundingID(channelID, local.address));
+        assert(holding.eq(ether(2)), "wrong holding");
+      });
+
+      it("reads settled", async () => {
+        (await clients[0].settled(channelID)).should.be.false;
+        await clients[0].ah.setOutcome(channelID, [parts[0], local.address], [ether(2), ether(1)], { from: adj });
+        (await clients[0].settled(channelID)).should.be.true;
+      });
+
+      itWithBlockRevert("withdraws all participants in one transaction", async () => {
+        const before = await clients[0].balanceOf(parts[0]);
+        await clients[1].withdrawAll(channelID, [parts[0], local]);
+        const after = await clients[0].balanceOf(parts[0]);
+        assert(after.eq(before.add(ether(2))), "wrong participant balance");
+        assert((await clients[1].balanceOf(local.address)).eq(ether(1)), "wrong local signer balance");
+      });
+
+      it("rejects duplicate participants in withdrawAll", async () => {
+        try {
+          await clients[1].withdrawAll(channelID, [parts[0], local, parts[0]]);
+        } catch (err) {
+          err.message.should.equal(`duplicate participant ${parts[0].toLowerCase()}`);
+          return;
+        }
+        assert.fail("withdrawAll succeeded");
+      });
+
+      it("withdraws with node account", async () => {
+        const before = await clients[0].balanceOf(receiver);
+        await clients[0].withdraw(channelID, parts[0], receiver, ether(1));
+        const after = await clients[0].balanceOf(receiver);
+        assert(after.eq(before.add(ether(1))), "wrong receiver balance");
+      });
+
+      it("withdraws whole holding with local signer", async () => {
+        const before = await clients[1].balanceOf(receiver);
+        await clients[1].withdraw(channelID, local, receiver);
+        const after = await clients[1].balanceOf(receiver);
+        assert(after.eq(before.add(ether(1))), "wrong receiver balance");
+        const holding = await clients[1].holdings(clients[1].fundingID(channelID, local.address));
+        assert(holding.isZero(), "holding not withdrawn");
+      });
+    });
+  }
+
+  testClient("ETH", AssetHolderType.ETH, async () => (await AssetHolderETH.new(adj)).address);
+  testClient("ERC20", AssetHolderType.ERC20, async () => {
+    const token = await PerunToken.new(accounts, ether(100));
+    return (await AssetHolderERC20.new(adj, token.address)).address;
+  });
+});
@@ -0,0 +1,115 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assert, expect, should } from "chai";
+should();
+import {
+  AdjudicatorContract,
+  TrivialAppContract,
+  AssetHolderETHContract,
+  AssetHolderETHInstance,
+} from "../../types/truffle-contracts";
+import { DisputePhase } from "./Channel";
+import { ether, hash } from "../lib/web3";
+import { describeWithBlockRevert } from "../lib/test";
+import { AdjudicatorClient } from "../lib/adjudicator";
+import { ChannelBuilder } from "../lib/builder";
+
+const Adjudicator = artifacts.require<AdjudicatorContract>("Adjudicator");
+const TrivialApp = artifacts.require<TrivialAppContract>("TrivialApp");
+const AssetHolderETH = artifacts.require<AssetHolderETHContract>("AssetHolderETH");
+
+contract("ChannelBuilder", async (accounts) => {
+  let client: AdjudicatorClient;
+  let holders: AssetHolderETHInstance[];
+  let app = "";
+  const parts = [accounts[1], accounts[2], accounts[3]];
+  const timeout = 60;
+
+  function newBuilder(): ChannelBuilder {
+    return new ChannelBuilder()
+      .participants(parts)
+      .app(app)
+      .challengeDuration(timeout)
+      .asset(holders[0].address, [ether(1), ether(2), ether(3)])
+      .asset(holders[1].address, ["4", "5", "6"]);
+  }
+
+  before(async () => {
+    const adj = await Adjudicator.new();
+    client = new AdjudicatorClient(adj, accounts[0]);
+    app = (await TrivialApp.new()).address;
+    holders = [await AssetHolderETH.new(adj.address), await AssetHolderETH.new(adj.address)];
+  });
+
+  describe("build", () => {
+    it("channel with all participants and assets", () => {
+      const ch = newBuilder().nonce("0x01").appData("0x0102").version(3).build();
+      ch.params.participants.should.deep.equal(parts);
+      ch.params.nonce.should.equal("0x01");
+      ch.state.channelID.should.equal(ch.params.channelID());
+      ch.state.version.should.equal("3");
+      ch.state.appData.should.equal("0x0102");
+      ch.state.outcome.assets.should.deep.equal(holders.map(h => h.address));
+      ch.state.outcome.balances.should.deep.equal([
+        [ether(1).toString(), ether(2).toString(), ether(3).toString()], ["4", "5", "6"]]);
+    });
+
+    it("random nonces", () => {
+      const ch1 = newBuilder().build();
+      const ch2 = newBuilder().build();
+      ch1.params.channelID().should.not.equal(ch2.params.channelID());
+    });
+
+    it("sub-allocations", () => {
+      const ch = newBuilder().subAlloc(hash("sub"), ["1", "2"]).build();
+      ch.state.outcome.locked.length.should.equal(1);
+      ch.state.outcome.locked[0].ID.should.equal(hash("sub"));
+    });
+
+    it("rejects wrong number of balances", () => {
+      expect(() => newBuilder().asset(accounts[4], ["1", "2"]).build())
+        .to.throw("asset 2 has 2 balances for 3 participants");
+    });
+
+    it("rejects wrong number of sub-allocation balances", () => {
+      expect(() => newBuilder().subAlloc(hash("sub"), ["1"]).build())
+        .to.throw("has 1 balances for 2 assets");
+    });
+
+    it("rejects final state with sub-allocations", () => {
+      expect(() => newBuilder().subAlloc(hash("sub"), ["1", "2"]).final().build())
+        .to.throw("final state cannot have sub-allocations");
+    });
+
+    it("rejects channel without participants or assets", () => {
+      expect(() => new ChannelBuilder().build()).to.throw("channel must have participants");
+      expect(() => new ChannelBuilder().participants(parts).build()).to.throw("channel must have assets");
+    });
+  });
+
+  describeWithBlockRevert("Adjudicator", () => {
+    it("register and concludeFinal with three participants and two assets", async () => {
+      const ch = newBuilder().version(1).build();
+      const updates = await client.register(ch.params, ch.state, await ch.state.sign(parts));
+      assert(updates.length == 1 && updates[0].phase == DisputePhase.DISPUTE, "wrong registration");
+
+      const final = newBuilder().nonce(ch.params.nonce).version(2).final().build();
+      await client.concludeFinal(final.params, final.state, await final.state.sign(parts));
+      for (const holder of holders) {
+        assert(await holder.settled.call(ch.state.channelID), "outcome not set");
+      }
+    });
+  });
+});
@@ -18,7 +18,9 @@
 
 import Web3 from "web3";
 declare const web3: Web3;
-import { sign, hash } from "../lib/web3";
+import { hash } from "../lib/web3";
+import { Signer, asSigner } from "../lib/signer";
+import { AppDataCodec } from "../lib/codec";
 
 export enum DisputePhase { DISPUTE, FORCEEXEC, CONCLUDED }
 
@@ -55,42 +57,24 @@ export class Params {
   }
 
   encode() {
-    const paramsType = {
-      "components": [
-        {
-          "internalType": "uint256",
-          "name": "challengeDuration",
-          "type": "uint256"
-        },
-        {
-          "internalType": "uint256",
-          "name": "nonce",
-          "type": "uint256"
-        },
-        {
-          "internalType": "address",
-          "name": "app",
-          "type": "address"
-        },
-        {
-          "internalType": "address[]",
-          "name": "participants",
-          "type": "address[]"
-        }
-      ],
-      "internalType": "struct Channel.Params",
-      "name": "params",
-      "type": "tuple"
-    }
     return web3.eth.abi.encodeParameter(paramsType, this)
   }
 
+  static deserialize(obj: any): Params {
+    return new Params(obj.app, Number(obj.challengeDuration), obj.nonce.toString(), obj.participants.slice());
+  }
+
+  static decode(data: string): Params {
+    return Params.deserialize(web3.eth.abi.decodeParameter(paramsType, data));
+  }
+
   channelID() {
     return hash(this.encode());
   }
 }
 
-export class State {
+// State is a channel state whose appData has the type `T` when decoded.
+export class State<T = any> {
   channelID: string;
   version: string;
   outcome: Allocation;
@@ -116,77 +100,31 @@ export class State {
   }
 
   encode() {
-    const stateType = {
-      "components": [
-        {
-          "internalType": "bytes32",
-          "name": "channelID",
-          "type": "bytes32"
-        },
-        {
-          "internalType": "uint64",
-          "name": "version",
-          "type": "uint64"
-        },
-        {
-          "components": [
-            {
-              "internalType": "address[]",
-              "name": "assets",
-              "type": "address[]"
-            },
-            {
-              "internalType": "uint256[][]",
-              "name": "balances",
-              "type": "uint256[][]"
-            },
-            {
-              "components": [
-                {
-                  "internalType": "bytes32",
-                  "name": "ID",
-                  "type": "bytes32"
-                },
-                {
-                  "internalType": "uint256[]",
-                  "name": "balances",
-                  "type": "uint256[]"
-                }
-              ],
-              "internalType": "struct Channel.SubAlloc[]",
-              "name": "locked",
-              "type": "tuple[]"
-            }
-          ],
-          "internalType": "struct Channel.Allocation",
-          "name": "outcome",
-          "type": "tuple"
-        },
-        {
-          "internalType": "bytes",
-          "name": "appData",
-          "type": "bytes"
-        },
-        {
-          "internalType": "bool",
-          "name": "isFinal",
-          "type": "bool"
-        }
-      ],
-      "internalType": "struct Channel.State",
-      "name": "state",
-      "type": "tuple"
-    };
-
     return web3.eth.abi.encodeParameter(stateType, this);
   }
 
+  static deserialize<T = any>(obj: any): State<T> {
+    return new State<T>(obj.channelID, obj.version.toString(), Allocation.deserialize(obj.outcome), obj.appData, obj.isFinal);
+  }
+
+  static decode<T = any>(data: string): State<T> {
+    return State.deserialize<T>(web3.eth.abi.decodeParameter(stateType, data));
+  }
+
+  decodeAppData(codec: AppDataCodec<T>): T {
+    return codec.decodeAppData(this.appData);
+  }
+
+  encodeAppData(codec: AppDataCodec<T>, data: T) {
+    this.appData = codec.encodeAppData(data);
+  }
+
   incrementVersion() {
     this.version = (Number(this.version) + 1).toString()
   }
 
-  async sign(signers: string[]): Promise<string[]> {
-    return Promise.all(signers.map(signer => sign(this.encode(), signer)))
+  async sign(signers: (string | Signer)[]): Promise<string[]> {
+    return Promise.all(signers.map(signer => asSigner(signer).sign(this.encode())))
   }
 }
 
@@ -205,6 +143,21 @@ export class Allocation {
       let _locked: any[] = this.locked.map(e => e.serialize());
       return { assets: this.assets, balances: this.balances, locked: _locked };
     }
+
+    encode() {
+      return web3.eth.abi.encodeParameter(allocationType, this);
+    }
+
+    static deserialize(obj: any): Allocation {
+      return new Allocation(
+        obj.assets.slice(),
+        obj.balances.map((bals: any[]) => bals.map(bal => bal.toString())),
+        obj.locked.map(SubAlloc.deserialize));
+    }
+
+    static decode(data: string): Allocation {
+      return Allocation.deserialize(web3.eth.abi.decodeParameter(allocationType, data));
+    }
   }
 
 export class SubAlloc {
@@ -219,22 +172,34 @@ export class SubAlloc {
     serialize() {
         return { ID: this.ID, balances: this.balances };
     }
+
+    encode() {
+        return web3.eth.abi.encodeParameter(subAllocType, this);
+    }
+
+    static deserialize(obj: any): SubAlloc {
+        return new SubAlloc(obj.ID, obj.balances.map((bal: any) => bal.toString()));
+    }
+
+    static decode(data: string): SubAlloc {
+        return SubAlloc.deserialize(web3.eth.abi.decodeParameter(subAllocType, data));
+    }
 }
 
 export class Transaction extends Channel {
     sigs: string[];
   
     constructor(parts: string[], balances: BN[], challengeDuration: number, nonce: string, asset: string, app: string) {
-      const params = new Params(app, challengeDuration, nonce, [parts[0], parts[1]]);
-      const outcome = new Allocation([asset], [[balances[0].toString(), balances[1].toString()]], []);
+      const params = new Params(app, challengeDuration, nonce, parts.slice());
+      const outcome = new Allocation([asset], [balances.map(bal => bal.toString())], []);
       const state = new State(params.channelID(), "0", outcome, "0x00", false);
       super(params, state);
       this.sigs = [];
     }
   
-    async sign(parts: string[]) {
+    async sign(parts: (string | Signer)[]) {
       let stateEncoded = this.state.encode();
-      this.sigs = await Promise.all(parts.map(participant => sign(stateEncoded, participant)));
+      this.sigs = await Promise.all(parts.map(participant => asSigner(participant).sign(stateEncoded)));
     }
   }
   
@@ -244,12 +209,22 @@ export class Authorization {
     participant: string;
     receiver: string;
     amount: string;
+    // The number of previous withdrawals of the participant from the channel.
+    nonce: string;
+    // The part of the amount that is paid to the relayer.
+    fee: string;
+    // The receiver of the fee.
+    relayer: string;
   
-    constructor(_channelID: string, _participant: string, _receiver: string, _amount: string) {
+    constructor(_channelID: string, _participant: string, _receiver: string, _amount: string, _nonce: string = "0", _fee: string = "0",
+      _relayer: string = "0x0000000000000000000000000000000000000000") {
       this.channelID = _channelID;
       this.participant = _participant;
       this.receiver = _receiver;
       this.amount = _amount;
+      this.nonce = _nonce;
+      this.fee = _fee;
+      this.relayer = _relayer;
     }
   
     serialize() {
@@ -257,19 +232,144 @@ export class Authorization {
         channelID: this.channelID,
         participant: this.participant,
         receiver: this.receiver,
-        amount: this.amount
+        amount: this.amount,
+        nonce: this.nonce,
+        fee: this.fee,
+        relayer: this.relayer
       };
     }
+
+    static deserialize(obj: any): Authorization {
+      return new Authorization(obj.channelID, obj.participant, obj.receiver,
+        obj.amount.toString(), obj.nonce.toString(), obj.fee.toString(), obj.relayer);
+    }
   
     encode() {
       return web3.eth.abi.encodeParameters(
-        ['bytes32', 'address', 'address', 'uint256'],
+        ['bytes32', 'address', 'address', 'uint256', 'uint256', 'uint256', 'address'],
         [
           web3.utils.rightPad(this.channelID, 64, "0"),
           this.participant,
           this.receiver,
-          web3.utils.padLeft(this.amount.toString(), 64, "0")
+          web3.utils.padLeft(this.amount.toString(), 64, "0"),
+          web3.utils.padLeft(this.nonce.toString(), 64, "0"),
+          web3.utils.padLeft(this.fee.toString(), 64, "0"),
+          this.relayer
         ]
       );
     }
+
+    async sign(signer: string | Signer): Promise<string> {
+      return asSigner(signer).sign(this.encode());
+    }
   }
+
+// ABI types of the structs of the Channel library.
+
+export const paramsType = {
+  "components": [
+    {
+      "internalType": "uint256",
+      "name": "challengeDuration",
+      "type": "uint256"
+    },
+    {
+      "internalType": "uint256",
+      "name": "nonce",
+      "type": "uint256"
+    },
+    {
+      "internalType": "address",
+      "name": "app",
+      "type": "address"
+    },
+    {
+      "internalType": "address[]",
+      "name": "participants",
+      "type": "address[]"
+    }
+  ],
+  "internalType": "struct Channel.Params",
+  "name": "params",
+  "type": "tuple"
+};
+
+const subAllocComponents = [
+  {
+    "internalType": "bytes32",
+    "name": "ID",
+    "type": "bytes32"
+  },
+  {
+    "internalType": "uint256[]",
+    "name": "balances",
+    "type": "uint256[]"
+  }
+];
+
+const subAllocType = {
+  "components": subAllocComponents,
+  "internalType": "struct Channel.SubAlloc",
+  "name": "subAlloc",
+  "type": "tuple"
+};
+
+const allocationComponents = [
+  {
+    "internalType": "address[]",
+    "name": "assets",
+    "type": "address[]"
+  },
+  {
+    "internalType": "uint256[][]",
+    "name": "balances",
+    "type": "uint256[][]"
+  },
+  {
+    "components": subAllocComponents,
+    "internalType": "struct Channel.SubAlloc[]",
+    "name": "locked",
+    "type": "tuple[]"
+  }
+];
+
+const allocationType = {
+  "components": allocationComponents,
+  "internalType": "struct Channel.Allocation",
+  "name": "allocation",
+  "type": "tuple"
+};
+
+export const stateType = {
+  "components": [
+    {
+      "internalType": "bytes32",
+      "name": "channelID",
+      "type": "bytes32"
+    },
+    {
+      "internalType": "uint64",
+      "name": "version",
+      "type": "uint64"
+    },
+    {
+      "components": allocationComponents,
+      "internalType": "struct Channel.Allocation",
+      "name": "outcome",
+      "type": "tuple"
+    },
+    {
+      "internalType": "bytes",
+      "name": "appData",
+      "type": "bytes"
+    },
+    {
+      "internalType": "bool",
+      "name": "isFinal",
+      "type": "bool"
+    }
+  ],
+  "internalType": "struct Channel.State",
+  "name": "state",
+  "type": "tuple"
+};
@@ -0,0 +1,139 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assert, should } from "chai";
+should();
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import Web3 from "web3";
+declare const web3: Web3;
+import { Transaction } from "./Channel";
+import { ether } from "../lib/web3";
+import { ChannelStore, StoreBackend, MemoryBackend, FileBackend } from "../lib/store";
+
+contract("ChannelStore", async (accounts) => {
+  const parts = [accounts[1], accounts[2]];
+  const balance = [ether(1), ether(2)];
+  const dir = path.join(os.tmpdir(), "perun-store-" + web3.utils.randomHex(8).slice(2));
+
+  async function signedTransaction(version: string, nonce: string = "1"): Promise<Transaction> {
+    let tx = new Transaction(parts, balance, 60, nonce, accounts[3], accounts[4]);
+    tx.state.version = version;
+    await tx.sign(parts);
+    return tx;
+  }
+
+  async function assertRejects(res: Promise<any>, msg: string) {
+    try {
+      await res;
+    } catch (err) {
+      err.message.should.include(msg);
+      return;
+    }
+    assert.fail(`expected error: ${msg}`);
+  }
+
+  function testStore(name: string, newBackend: () => StoreBackend) {
+    describe(name, () => {
+      let store: ChannelStore;
+
+      before(() => {
+        store = new ChannelStore(newBackend());
+      });
+
+      it("stores newer states", async () => {
+        const tx = await signedTransaction("1");
+        await store.put(tx.params, tx.state, tx.sigs);
+        const tx2 = await signedTransaction("2");
+        await store.put(tx2.params, tx2.state, tx2.sigs);
+
+        const latest = (await store.latest(tx.state.channelID))!;
+        latest.state.should.deep.equal(tx2.state);
+        latest.sigs.should.deep.equal(tx2.sigs);
+        latest.params.encode().should.equal(tx.params.encode());
+        (await store.history(tx.state.channelID)).map(s => s.state.version).should.deep.equal(["1", "2"]);
+        (await store.channelIDs()).should.deep.equal([tx.state.channelID]);
+      });
+
+      it("ignores the latest state", async () => {
+        const tx = await signedTransaction("2");
+        await store.put(tx.params, tx.state, tx.sigs);
+        (await store.history(tx.state.channelID)).length.should.equal(2);
+      });
+
+      it("rejects older versions", async () => {
+        const tx = await signedTransaction("1");
+        tx.state.appData = "0x01";
+        await tx.sign(parts);
+        await assertRejects(store.put(tx.params, tx.state, tx.sigs), "is not higher than stored version 2");
+      });
+
+      it("rejects invalid signatures", async () => {
+        const tx = await signedTransaction("3");
+        await assertRejects(store.put(tx.params, tx.state, [tx.sigs[1], tx.sigs[0]]), "invalid signatures");
+        await assertRejects(store.put(tx.params, tx.state, [tx.sigs[0]]), "invalid signatures");
+      });
+
+      it("rejects mismatching params", async () => {
+        const tx = await signedTransaction("3");
+        const other = await signedTransaction("3", "2");
+        await assertRejects(store.put(other.params, tx.state, tx.sigs), "does not match params");
+      });
+
+      it("returns copies", async () => {
+        const tx = await signedTransaction("1");
+        (await store.latest(tx.state.channelID))!.state.version = "10";
+        (await store.latest(tx.state.channelID))!.state.version.should.equal("2");
+      });
+
+      it("deletes channels", async () => {
+        const tx = await signedTransaction("1", "3");
+        await store.put(tx.params, tx.state, tx.sigs);
+        await store.delete(tx.state.channelID);
+        assert((await store.latest(tx.state.channelID)) === undefined, "channel not deleted");
+      });
+
+      it("serializes concurrent writes", async () => {
+        const tx3 = await signedTransaction("3");
+        const tx4 = await signedTransaction("4");
+        // The stale put must be compared against the newest state instead of
+        // overwriting it.
+        await Promise.all([
+          store.put(tx3.params, tx3.state, tx3.sigs),
+          store.put(tx4.params, tx4.state, tx4.sigs),
+          assertRejects(store.put(tx3.params, tx3.state, tx3.sigs), "is not higher than stored version 4"),
+        ]);
+        (await store.latest(tx3.state.channelID))!.state.version.should.equal("4");
+      });
+    });
+  }
+
+  testStore("memory", () => new MemoryBackend());
+  testStore("file", () => new FileBackend(dir));
+
+  describe("file persistence", () => {
+    it("reads states of another instance", async () => {
+      const tx = await signedTransaction("5", "4");
+      await new ChannelStore(new FileBackend(dir)).put(tx.params, tx.state, tx.sigs);
+      const latest = (await new ChannelStore(new FileBackend(dir)).latest(tx.state.channelID))!;
+      latest.state.should.deep.equal(tx.state);
+    });
+
+    after(() => {
+      fs.readdirSync(dir).forEach(f => fs.unlinkSync(path.join(dir, f)));
+      fs.rmdirSync(dir);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assert, expect, should } from "chai";
+should();
+import {
+  AdjudicatorContract,
+  TrivialAppContract,
+  AssetHolderETHContract,
+  AssetHolderETHInstance,
+} from "../../types/truffle-contracts";
+import { Channel } from "./Channel";
+import { advanceBlockTime, fundingID, describeWithBlockRevert } from "../lib/test";
+import { AdjudicatorClient } from "../lib/adjudicator";
+import { ChannelBuilder } from "../lib/builder";
+import { ChannelTree } from "../lib/tree";
+
+const Adjudicator = artifacts.require<AdjudicatorContract>("Adjudicator");
+const TrivialApp = artifacts.require<TrivialAppContract>("TrivialApp");
+const AssetHolderETH = artifacts.require<AssetHolderETHContract>("AssetHolderETH");
+
+contract("ChannelTree", async (accounts) => {
+  let client: AdjudicatorClient;
+  let holder: AssetHolderETHInstance;
+  let app = "";
+  const parts = [accounts[1], accounts[2]];
+  const timeout = 60;
+
+  /* Channel tree
+   *      ledger
+   *     /      \
+   *   sub0     sub3
+   *   /  \
+   * sub1 sub2
+   */
+  let ledger: Channel;
+  let subs: Channel[];
+
+  function newChannel(balances: string[], children: Channel[] = []): Channel {
+    let builder = new ChannelBuilder()
+      .participants(parts)
+      .app(app)
+      .challengeDuration(timeout)
+      .asset(holder.address, balances)
+      .version(1);
+    children.forEach(child => {
+      const sub = new ChannelTree(child).subAlloc();
+      builder.subAlloc(sub.ID, sub.balances);
+    });
+    return builder.build();
+  }
+
+  before(async () => {
+    const adj = await Adjudicator.new();
+    client = new AdjudicatorClient(adj, accounts[0]);
+    app = (await TrivialApp.new()).address;
+    holder = await AssetHolderETH.new(adj.address);
+
+    const sub1 = newChannel(["1", "2"]);
+    const sub2 = newChannel(["3", "4"]);
+    const sub0 = newChannel(["5", "6"], [sub1, sub2]);
+    const sub3 = newChannel(["7", "8"]);
+    subs = [sub0, sub1, sub2, sub3];
+    ledger = newChannel(["9", "10"], [sub0, sub3]);
+  });
+
+  describe("model", () => {
+    it("links sub-channels by ID", () => {
+      const tree = ChannelTree.fromChannels(ledger, [subs[3], subs[2], subs[1], subs[0]]);
+      tree.children.map(child => child.channelID()).should.deep.equal([subs[0], subs[3]].map(ch => ch.state.channelID));
+      tree.validate();
+    });
+
+    it("orders sub-states depth-first", () => {
+      const tree = ChannelTree.fromChannels(ledger, subs);
+      tree.subStates().map(s => s.channelID).should.deep.equal(subs.map(ch => ch.state.channelID));
+    });
+
+    it("accumulates outcome", () => {
+      const tree = ChannelTree.fromChannels(ledger, subs);
+      tree.outcome().map(bals => bals.map(bal => bal.toString())).should.deep.equal([["25", "30"]]);
+      tree.total().map(bal => bal.toString()).should.deep.equal(["55"]);
+    });
+
+    it("rejects missing sub-channel", () => {
+      expect(() => ChannelTree.fromChannels(ledger, subs.slice(1))).to.throw("not found");
+    });
+
+    it("rejects wrong locked balances", () => {
+      const tree = ChannelTree.fromChannels(ledger, subs);
+      tree.channel.state.outcome.locked[1].balances = ["1"];
+      try {
+        expect(() => tree.validate()).to.throw("do not match its total");
+      } finally {
+        tree.channel.state.outcome.locked[1] = new ChannelTree(subs[3]).subAlloc();
+      }
+    });
+
+    it("rejects wrong sub-channel order", () => {
+      const tree = new ChannelTree(ledger, [new ChannelTree(subs[3]), new ChannelTree(subs[0])]);
+      expect(() => tree.validate()).to.throw("invalid channel ID");
+    });
+  });
+
+  describeWithBlockRevert("conclude", () => {
+    it("concludes tree with sub-states", async () => {
+      const tree = ChannelTree.fromChannels(ledger, subs);
+      const outcome = tree.outcome()[0];
+      for (let p = 0; p < parts.length; p++) {
+        await holder.deposit(fundingID(ledger.state.channelID, parts[p]), outcome[p],
+          { value: outcome[p], from: parts[p] });
+      }
+      for (const ch of [ledger, ...subs]) {
+        await client.register(ch.params, ch.state, await ch.state.sign(parts));
+      }
+      await advanceBlockTime(2 * timeout + 1);
+      await client.conclude(ledger.params, ledger.state, tree.subStates());
+
+      for (let p = 0; p < parts.length; p++) {
+        const holding = await holder.holdings.call(fundingID(ledger.state.channelID, parts[p]));
+        assert(holding.eq(outcome[p]), `wrong holding of participant ${p}`);
+      }
+    });
+  });
+});
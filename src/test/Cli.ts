@@ -0,0 +1,144 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assert, should } from "chai";
+should();
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import Web3 from "web3";
+declare const web3: Web3;
+import {
+  AdjudicatorContract,
+  AdjudicatorInstance,
+  TrivialAppContract,
+  AssetHolderETHContract,
+  AssetHolderETHInstance,
+} from "../../types/truffle-contracts";
+import { Transaction } from "./Channel";
+import { ether } from "../lib/web3";
+import { advanceBlockTime, fundingID, describeWithBlockRevert } from "../lib/test";
+import { run, usage } from "../cli/commands";
+
+const Adjudicator = artifacts.require<AdjudicatorContract>("Adjudicator");
+const TrivialApp = artifacts.require<TrivialAppContract>("TrivialApp");
+const AssetHolderETH = artifacts.require<AssetHolderETHContract>("AssetHolderETH");
+
+contract("perun-eth", async (accounts) => {
+  let adj: AdjudicatorInstance;
+  let ah: AssetHolderETHInstance;
+  let tx: Transaction;
+  const parts = [accounts[1], accounts[2]];
+  const balance = [ether(1), ether(2)];
+  const timeout = 60;
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "perun-cli-"));
+
+  // exec runs the command and returns its parsed output.
+  async function exec(...args: string[]): Promise<any> {
+    let out: string[] = [];
+    await run(args, line => out.push(line), {});
+    return JSON.parse(out.join("\n"));
+  }
+
+  function writeChannel(name: string, tx: Transaction): string {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, JSON.stringify({
+      params: tx.params.serialize(),
+      state: tx.state.serialize(),
+      sigs: tx.sigs,
+    }));
+    return file;
+  }
+
+  before(async () => {
+    adj = await Adjudicator.new();
+    ah = await AssetHolderETH.new(adj.address);
+    const app = (await TrivialApp.new()).address;
+    tx = new Transaction(parts, balance, timeout, "1", ah.address, app);
+    tx.state.version = "2";
+    await tx.sign(parts);
+  });
+
+  after(() => {
+    fs.readdirSync(dir).forEach(f => fs.unlinkSync(path.join(dir, f)));
+    fs.rmdirSync(dir);
+  });
+
+  it("channel-id", async () => {
+    const file = path.join(dir, "params.json");
+    fs.writeFileSync(file, JSON.stringify(tx.params.serialize()));
+    (await exec("channel-id", file)).channelID.should.equal(tx.state.channelID);
+  });
+
+  it("help and channel-id do not query the node", async () => {
+    const getAccounts = web3.eth.getAccounts;
+    web3.eth.getAccounts = () => Promise.reject(new Error("node unreachable"));
+    try {
+      let out: string[] = [];
+      await run(["help"], line => out.push(line), {});
+      out.join("\n").should.equal(usage);
+      const file = path.join(dir, "params.json");
+      fs.writeFileSync(file, JSON.stringify(tx.params.serialize()));
+      (await exec("channel-id", file)).channelID.should.equal(tx.state.channelID);
+    } finally {
+      web3.eth.getAccounts = getAccounts;
+    }
+  });
+
+  it("unknown command", async () => {
+    try {
+      await run(["frobnicate"], () => {}, {});
+      assert.fail("unknown command must fail");
+    } catch (err) {
+      err.message.should.include("unknown command frobnicate");
+    }
+  });
+
+  describeWithBlockRevert("dispute", () => {
+    it("unregistered channel", async () => {
+      (await exec("dispute", adj.address, tx.state.channelID)).registered.should.be.false;
+    });
+
+    it("register", async () => {
+      const updates = await exec("register", adj.address, writeChannel("channel.json", tx), "--from", accounts[5]);
+      updates.length.should.equal(1);
+      updates[0].phase.should.equal("DISPUTE");
+    });
+
+    it("shows registered dispute", async () => {
+      const dispute = await exec("dispute", adj.address, tx.state.channelID);
+      dispute.registered.should.be.true;
+      dispute.phase.should.equal("DISPUTE");
+      dispute.version.should.equal("2");
+      dispute.remaining.should.be.within(1, timeout);
+      dispute.concludableAt.should.equal(dispute.timeout + timeout);
+    });
+
+    it("conclude and withdraw", async () => {
+      await ah.deposit(fundingID(tx.state.channelID, parts[0]), balance[0], { value: balance[0], from: parts[0] });
+      await ah.deposit(fundingID(tx.state.channelID, parts[1]), balance[1], { value: balance[1], from: parts[1] });
+      await advanceBlockTime(2 * timeout + 1);
+      const updates = await exec("conclude", adj.address, path.join(dir, "channel.json"));
+      updates[0].phase.should.equal("CONCLUDED");
+
+      const holdings = await exec("holdings", ah.address, tx.state.channelID, parts[1]);
+      holdings.holdings.should.equal(balance[1].toString());
+      const before = web3.utils.toBN(await web3.eth.getBalance(accounts[3]));
+      await exec("withdraw", ah.address, tx.state.channelID, accounts[3], "--from", parts[1]);
+      const after = web3.utils.toBN(await web3.eth.getBalance(accounts[3]));
+      assert(after.eq(before.add(balance[1])), "wrong receiver balance");
+      (await exec("holdings", ah.address, holdings.fundingID)).holdings.should.equal("0");
+    });
+  });
+});
@@ -0,0 +1,142 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assert, expect, should } from "chai";
+should();
+import Web3 from "web3";
+declare const web3: Web3;
+import {
+  AdjudicatorContract,
+  AdjudicatorInstance,
+  TrivialAppContract,
+  AssetHolderETHContract,
+} from "../../types/truffle-contracts";
+import { Params, State, Allocation, SubAlloc, Transaction } from "./Channel";
+import { ether, hash } from "../lib/web3";
+import { advanceBlockTime, describeWithBlockRevert } from "../lib/test";
+import { decodeAdjudicatorCall } from "../lib/adjudicator";
+
+const Adjudicator = artifacts.require<AdjudicatorContract>("Adjudicator");
+const TrivialApp = artifacts.require<TrivialAppContract>("TrivialApp");
+const AssetHolderETH = artifacts.require<AssetHolderETHContract>("AssetHolderETH");
+
+contract("Decode", async (accounts) => {
+  let adj: AdjudicatorInstance;
+  let app = "";
+  let asset = "";
+  const parts = [accounts[1], accounts[2], accounts[3]];
+  const assets = [accounts[4], accounts[5]];
+  const timeout = 60;
+
+  function newState(params: Params): State {
+    const locked = [new SubAlloc(hash("sub"), ["1", "2"])];
+    const outcome = new Allocation(assets, [["1", "2", "3"], ["4", "5", "6"]], locked);
+    return new State(params.channelID(), "7", outcome, "0x0102", false);
+  }
+
+  before(async () => {
+    adj = await Adjudicator.new();
+    app = (await TrivialApp.new()).address;
+    asset = (await AssetHolderETH.new(adj.address)).address;
+  });
+
+  describe("ABI bytes", () => {
+    it("params", () => {
+      const params = new Params(app, timeout, "0xB0B0FACE", parts);
+      const decoded = Params.decode(params.encode());
+      decoded.encode().should.equal(params.encode());
+      decoded.channelID().should.equal(params.channelID());
+      decoded.challengeDuration.should.equal(timeout);
+    });
+
+    it("state", () => {
+      const state = newState(new Params(app, timeout, "1", parts));
+      const decoded = State.decode(state.encode());
+      decoded.encode().should.equal(state.encode());
+      decoded.should.deep.equal(state);
+    });
+
+    it("allocation and sub-allocation", () => {
+      const state = newState(new Params(app, timeout, "1", parts));
+      Allocation.decode(state.outcome.encode()).should.deep.equal(state.outcome);
+      SubAlloc.decode(state.outcome.locked[0].encode()).should.deep.equal(state.outcome.locked[0]);
+    });
+  });
+
+  describe("JSON", () => {
+    it("params", () => {
+      const params = new Params(app, timeout, "1", parts);
+      const decoded = Params.deserialize(JSON.parse(JSON.stringify(params.serialize())));
+      decoded.should.deep.equal(params);
+    });
+
+    it("state", () => {
+      const state = newState(new Params(app, timeout, "1", parts));
+      const decoded = State.deserialize(JSON.parse(JSON.stringify(state.serialize())));
+      decoded.should.deep.equal(state);
+    });
+  });
+
+  describeWithBlockRevert("calldata", () => {
+    async function calldata(res: Truffle.TransactionResponse): Promise<string> {
+      return (await web3.eth.getTransaction(res.tx)).input;
+    }
+
+    let tx: Transaction;
+
+    before(async () => {
+      tx = new Transaction(parts.slice(0, 2), [ether(1), ether(2)], timeout, "1", asset, app);
+      tx.state.version = "1";
+      await tx.sign(tx.params.participants);
+    });
+
+    it("register", async () => {
+      const res = await adj.register(tx.params.serialize(), tx.state.serialize(), tx.sigs);
+      const call = decodeAdjudicatorCall(await calldata(res));
+      call.method.should.equal("register");
+      call.params.encode().should.equal(tx.params.encode());
+      call.state.should.deep.equal(tx.state);
+      call.sigs.should.deep.equal(tx.sigs);
+    });
+
+    it("progress", async () => {
+      await advanceBlockTime(timeout + 1);
+      const stateOld = State.deserialize(tx.state.serialize());
+      tx.state.incrementVersion();
+      await tx.sign(tx.params.participants);
+      const res = await adj.progress(
+        tx.params.serialize(), stateOld.serialize(), tx.state.serialize(), 1, tx.sigs[1]);
+      const call = decodeAdjudicatorCall(await calldata(res));
+      call.method.should.equal("progress");
+      call.params.encode().should.equal(tx.params.encode());
+      call.state.should.deep.equal(tx.state);
+      assert.deepEqual(call.stateOld, stateOld);
+      assert.equal(call.actorIdx, 1);
+      call.sigs.should.deep.equal([tx.sigs[1]]);
+    });
+
+    it("conclude", async () => {
+      await advanceBlockTime(timeout + 1);
+      const res = await adj.conclude(tx.params.serialize(), tx.state.serialize(), []);
+      const call = decodeAdjudicatorCall(await calldata(res));
+      call.method.should.equal("conclude");
+      call.state.should.deep.equal(tx.state);
+      call.subStates.should.deep.equal([]);
+    });
+
+    it("unknown method", () => {
+      expect(() => decodeAdjudicatorCall("0x12345678")).to.throw("unknown Adjudicator method");
+    });
+  });
+});
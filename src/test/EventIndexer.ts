@@ -0,0 +1,131 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assert, should } from "chai";
+should();
+import Web3 from "web3";
+declare const web3: Web3;
+import {
+  AdjudicatorContract,
+  AdjudicatorInstance,
+  TrivialAppContract,
+  AssetHolderETHContract,
+  AssetHolderETHInstance,
+} from "../../types/truffle-contracts";
+import { DisputePhase, State, Transaction } from "./Channel";
+import { ether, asyncWeb3Send } from "../lib/web3";
+import { advanceBlockTime, describeWithBlockRevert, itWithBlockRevert } from "../lib/test";
+import { AdjudicatorClient } from "../lib/adjudicator";
+import { AssetHolderClient } from "../lib/assetholder";
+import { ChannelStage, ChannelUpdateEvent, DepositedEvent, EventIndexer } from "../lib/events";
+
+const Adjudicator = artifacts.require<AdjudicatorContract>("Adjudicator");
+const TrivialApp = artifacts.require<TrivialAppContract>("TrivialApp");
+const AssetHolderETH = artifacts.require<AssetHolderETHContract>("AssetHolderETH");
+
+contract("EventIndexer", async (accounts) => {
+  let adj: AdjudicatorInstance;
+  let ah: AssetHolderETHInstance;
+  let client: AdjudicatorClient;
+  let holders: AssetHolderClient[];
+  let app = "";
+  const parts = [accounts[1], accounts[2]];
+  const balance = [ether(1), ether(2)];
+  const timeout = 60;
+
+  async function newIndexer(tx: Transaction): Promise<EventIndexer> {
+    const indexer = new EventIndexer(adj, [ah], await web3.eth.getBlockNumber() + 1);
+    indexer.track(tx.state.channelID, parts);
+    return indexer;
+  }
+
+  before(async () => {
+    adj = await Adjudicator.new();
+    client = new AdjudicatorClient(adj, accounts[0]);
+    app = (await TrivialApp.new()).address;
+    ah = await AssetHolderETH.new(adj.address);
+    holders = await Promise.all(parts.map(part => AssetHolderClient.at(ah.address, part)));
+  });
+
+  describeWithBlockRevert("channel lifecycle", () => {
+    let tx: Transaction;
+    let indexer: EventIndexer;
+
+    before(async () => {
+      tx = new Transaction(parts, balance, timeout, "1", ah.address, app);
+      tx.state.version = "1";
+      await tx.sign(parts);
+      indexer = await newIndexer(tx);
+    });
+
+    it("indexes deposits and registration", async () => {
+      await holders[0].fund(tx.state.channelID, parts[0], balance[0]);
+      await holders[1].fund(tx.state.channelID, parts[1], balance[1]);
+      await client.register(tx.params, tx.state, tx.sigs);
+      const events = await indexer.poll();
+      events.map(ev => ev.kind).should.deep.equal(["Deposited", "Deposited", "ChannelUpdate"]);
+      assert((events[1] as DepositedEvent).amount.eq(balance[1]), "wrong deposit amount");
+      (events[2] as ChannelUpdateEvent).phase.should.equal(DisputePhase.DISPUTE);
+    });
+
+    it("resumes from next block", async () => {
+      const stateOld = State.deserialize(tx.state.serialize());
+      tx.state.incrementVersion();
+      await tx.sign(parts);
+      await advanceBlockTime(timeout + 1);
+      await client.progress(tx.params, stateOld, tx.state, 0, tx.sigs[0]);
+
+      const resumed = new EventIndexer(adj, [ah], indexer.nextBlock);
+      const events = await resumed.poll();
+      events.map(ev => ev.kind).should.deep.equal(["ChannelUpdate"]);
+      (events[0] as ChannelUpdateEvent).phase.should.equal(DisputePhase.FORCEEXEC);
+    });
+
+    it("builds timeline", async () => {
+      await advanceBlockTime(timeout + 1);
+      await client.conclude(tx.params, tx.state);
+      await holders[1].withdraw(tx.state.channelID, parts[1], accounts[3]);
+      await indexer.poll();
+      indexer.timeline(tx.state.channelID).map(entry => entry.stage).should.deep.equal([
+        ChannelStage.DEPOSITED,
+        ChannelStage.DEPOSITED,
+        ChannelStage.REGISTERED,
+        ChannelStage.PROGRESSED,
+        ChannelStage.CONCLUDED,
+        ChannelStage.OUTCOME_SET,
+        ChannelStage.WITHDRAWN,
+      ]);
+    });
+  });
+
+  itWithBlockRevert("handles reorgs", async () => {
+    const tx = new Transaction(parts, balance, timeout, "2", ah.address, app);
+    const indexer = await newIndexer(tx);
+    let reorgs: number[] = [];
+    indexer.on("reorg", block => reorgs.push(block));
+
+    const snapshot = (await asyncWeb3Send("evm_snapshot", [])).result;
+    await holders[0].fund(tx.state.channelID, parts[0], ether(1));
+    (await indexer.poll()).length.should.equal(1);
+    await asyncWeb3Send("evm_revert", [snapshot]);
+
+    await holders[0].fund(tx.state.channelID, parts[0], ether(3));
+    const events = await indexer.poll();
+    reorgs.length.should.equal(1);
+    events.length.should.equal(1);
+    const deposits = indexer.all() as DepositedEvent[];
+    deposits.length.should.equal(1);
+    assert(deposits[0].amount.eq(ether(3)), "stale deposit not dropped");
+  });
+});
@@ -0,0 +1,114 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assert, should } from "chai";
+should();
+import Web3 from "web3";
+declare const web3: Web3;
+import {
+  AssetHolderETHContract,
+  AssetHolderERC20Contract,
+  PerunTokenContract,
+} from "../../types/truffle-contracts";
+import { Channel } from "./Channel";
+import { ether } from "../lib/web3";
+import { itWithBlockRevert } from "../lib/test";
+import { AssetHolderClient } from "../lib/assetholder";
+import { ChannelBuilder } from "../lib/builder";
+import { Deposit, FundingCoordinator, FundingReport, FundingTimeoutError } from "../lib/funding";
+
+const AssetHolderETH = artifacts.require<AssetHolderETHContract>("AssetHolderETH");
+const AssetHolderERC20 = artifacts.require<AssetHolderERC20Contract>("AssetHolderERC20");
+const PerunToken = artifacts.require<PerunTokenContract>("PerunToken");
+
+contract("Funding", async (accounts) => {
+  const adj = accounts[9];
+  const parts = [accounts[1], accounts[2]];
+  let assets: string[];
+  // clients[p][a] is the client of participant p for asset a.
+  let clients: AssetHolderClient[][];
+
+  function newChannel(): Channel {
+    return new ChannelBuilder()
+      .participants(parts)
+      .asset(assets[0], [ether(1), ether(2)])
+      .asset(assets[1], [ether(3), ether(4)])
+      .build();
+  }
+
+  async function newCoordinator(ch: Channel): Promise<FundingCoordinator> {
+    return new FundingCoordinator(ch.params, ch.state, await web3.eth.getBlockNumber());
+  }
+
+  before(async () => {
+    const token = await PerunToken.new(accounts, ether(100));
+    assets = [
+      (await AssetHolderETH.new(adj)).address,
+      (await AssetHolderERC20.new(adj, token.address)).address,
+    ];
+    clients = await Promise.all(parts.map(part =>
+      Promise.all(assets.map(asset => AssetHolderClient.at(asset, part)))));
+  });
+
+  itWithBlockRevert("tracks progress", async () => {
+    const ch = newChannel();
+    const coordinator = await newCoordinator(ch);
+    let deposits: Deposit[] = [];
+    let funded: FundingReport[] = [];
+    coordinator.on("deposited", dep => deposits.push(dep));
+    coordinator.on("funded", report => funded.push(report));
+
+    const ids = coordinator.fundingIDs();
+    await clients[0][0].deposit(ids[0], ether(1));
+    await clients[1][1].deposit(ids[1], ether(1));
+    let report = await coordinator.poll();
+    report.funded.should.be.false;
+    report.missing.map(s => [s.asset, s.participant]).should.deep.equal([
+      [assets[0], parts[1]], [assets[1], parts[0]], [assets[1], parts[1]]]);
+    assert(report.statuses[1][1].deposited.eq(ether(1)), "wrong deposited amount");
+
+    await clients[1][1].deposit(ids[1], ether(3));
+    await coordinator.depositShare(clients[0], 0);
+    await coordinator.depositShare(clients[1].slice(0, 1), 1);
+    report = await coordinator.poll();
+    report.funded.should.be.true;
+    report.missing.should.be.empty;
+    await coordinator.poll();
+    funded.length.should.equal(1);
+    deposits.length.should.equal(6);
+  });
+
+  itWithBlockRevert("waits until funded", async () => {
+    const ch = newChannel();
+    const coordinator = await newCoordinator(ch);
+    const funded = coordinator.waitFunded(10000, 50);
+    await coordinator.depositShare(clients[0], 0);
+    await coordinator.depositShare(clients[1], 1);
+    (await funded).funded.should.be.true;
+  });
+
+  itWithBlockRevert("times out with report", async () => {
+    const ch = newChannel();
+    const coordinator = await newCoordinator(ch);
+    await coordinator.depositShare(clients[0], 0);
+    try {
+      await coordinator.waitFunded(500, 50);
+      assert.fail("channel should not be funded");
+    } catch (err) {
+      assert(err instanceof FundingTimeoutError, `unexpected error: ${err}`);
+      const report = (err as FundingTimeoutError).report;
+      report.missing.map(s => s.participant).should.deep.equal([parts[1], parts[1]]);
+    }
+  });
+});
@@ -0,0 +1,180 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// This test measures the gas usage of the Adjudicator and AssetHolder
+// operations and compares it with gas-baseline.json. The baseline is
+// rewritten instead if GAS_UPDATE_BASELINE is set, which is also required to
+// create a missing baseline. The allowed relative increase is configured by
+// GAS_THRESHOLD and defaults to 1%.
+
+import { assert } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+import BN from "bn.js";
+import {
+  AdjudicatorContract,
+  AdjudicatorInstance,
+  AssetHolderETHContract,
+  AssetHolderETHInstance,
+  AssetHolderERC20Contract,
+  AssetHolderERC20Instance,
+  PerunTokenContract,
+  PerunTokenInstance,
+  TrivialAppContract,
+} from "../../types/truffle-contracts";
+import { Channel, State } from "./Channel";
+import { ether } from "../lib/web3";
+import { advanceBlockTime } from "../lib/test";
+import { ChannelBuilder } from "../lib/builder";
+import { AssetHolderClient } from "../lib/assetholder";
+import { GasReport, compareGas, gasUsed, readGasReport, writeGasReport } from "../lib/gas";
+
+const Adjudicator = artifacts.require<AdjudicatorContract>("Adjudicator");
+const AssetHolderETH = artifacts.require<AssetHolderETHContract>("AssetHolderETH");
+const AssetHolderERC20 = artifacts.require<AssetHolderERC20Contract>("AssetHolderERC20");
+const PerunToken = artifacts.require<PerunTokenContract>("PerunToken");
+const TrivialApp = artifacts.require<TrivialAppContract>("TrivialApp");
+
+const baselineFile = path.join(__dirname, "..", "..", "gas-baseline.json");
+const numParts = [2, 4];
+const numSubChannels = [0, 1, 2, 4, 8];
+const numAssets = [1, 2, 3];
+const timeout = 60;
+
+contract("Gas benchmark", async (accounts) => {
+  let adj: AdjudicatorInstance;
+  let holders: AssetHolderETHInstance[] = [];
+  let erc20Holder: AssetHolderERC20Instance;
+  let token: PerunTokenInstance;
+  let app = "";
+  let report: GasReport = {};
+  let nonce = 0;
+
+  // newChannel returns a channel with deterministic nonces and balances so
+  // that the calldata of the transactions is the same in every run.
+  function newChannel(parts: number, assets: number, withApp: boolean = false, subChannels: Channel[] = []): Channel {
+    let builder = new ChannelBuilder()
+      .participants(accounts.slice(1, 1 + parts))
+      .challengeDuration(timeout)
+      .nonce((++nonce).toString())
+      .version(1);
+    if (withApp) {
+      builder = builder.app(app);
+    }
+    holders.slice(0, assets).forEach(ah => {
+      builder = builder.asset(ah.address, Array.from({ length: parts }, (_, i) => ether(i + 1)));
+    });
+    subChannels.forEach(sub => {
+      builder = builder.subAlloc(sub.params.channelID(), sub.state.outcome.balances.map(total));
+    });
+    return builder.build();
+  }
+
+  async function register(ch: Channel): Promise<Truffle.TransactionResponse> {
+    const sigs = await ch.state.sign(ch.params.participants);
+    return adj.register(ch.params.serialize(), ch.state.serialize(), sigs);
+  }
+
+  async function concludeFinal(ch: Channel): Promise<Truffle.TransactionResponse> {
+    ch.state.isFinal = true;
+    const sigs = await ch.state.sign(ch.params.participants);
+    return adj.concludeFinal(ch.params.serialize(), ch.state.serialize(), sigs);
+  }
+
+  before(async () => {
+    adj = await Adjudicator.new();
+    for (let i = 0; i < Math.max(...numAssets); i++) {
+      holders.push(await AssetHolderETH.new(adj.address));
+    }
+    token = await PerunToken.new(accounts, ether(100));
+    erc20Holder = await AssetHolderERC20.new(adj.address, token.address);
+    app = (await TrivialApp.new()).address;
+  });
+
+  numParts.forEach(parts => {
+    it(`register, progress and concludeFinal with ${parts} participants`, async () => {
+      const ch = newChannel(parts, 1, true);
+      report[`register/parts=${parts}`] = gasUsed(await register(ch));
+
+      let next = new Channel(ch.params, State.deserialize(ch.state.serialize()));
+      next.state.incrementVersion();
+      report[`refute/parts=${parts}`] = gasUsed(await register(next));
+
+      await advanceBlockTime(timeout + 1);
+      let to = State.deserialize(next.state.serialize());
+      to.incrementVersion();
+      const sig = (await to.sign([ch.params.participants[0]]))[0];
+      report[`progress/parts=${parts}`] = gasUsed(
+        await adj.progress(ch.params.serialize(), next.state.serialize(), to.serialize(), 0, sig));
+
+      for (const assets of numAssets) {
+        report[`concludeFinal/parts=${parts}/assets=${assets}`] = gasUsed(await concludeFinal(newChannel(parts, assets)));
+      }
+    });
+
+    numSubChannels.forEach(subs => {
+      it(`conclude with ${parts} participants and ${subs} sub-channels`, async () => {
+        for (const assets of numAssets) {
+          const subChannels = Array.from({ length: subs }, () => newChannel(parts, assets));
+          const root = newChannel(parts, assets, false, subChannels);
+          for (const ch of [root, ...subChannels]) {
+            await register(ch);
+          }
+          await advanceBlockTime(timeout + 1);
+          const res = await adj.conclude(
+            root.params.serialize(), root.state.serialize(), subChannels.map(sub => sub.state.serialize()));
+          report[`conclude/parts=${parts}/subs=${subs}/assets=${assets}`] = gasUsed(res);
+        }
+      });
+    });
+  });
+
+  it("deposit and withdraw", async () => {
+    const ch = newChannel(2, 1);
+    const part = ch.params.participants[0];
+    const amount = new BN(ch.state.outcome.balances[0][0]);
+    const eth = new AssetHolderClient(holders[0], part);
+    report["deposit/eth"] = gasUsed(await eth.fund(ch.state.channelID, part, amount));
+    await concludeFinal(ch);
+    report["withdraw/eth"] = gasUsed(await eth.withdraw(ch.state.channelID, part, part));
+
+    const tokenCh = new ChannelBuilder()
+      .participants(ch.params.participants)
+      .challengeDuration(timeout)
+      .nonce((++nonce).toString())
+      .asset(erc20Holder.address, ch.state.outcome.balances[0])
+      .version(1)
+      .build();
+    const erc20 = new AssetHolderClient(erc20Holder, part, token);
+    report["deposit/erc20"] = gasUsed(await erc20.fund(tokenCh.state.channelID, part, amount));
+    await concludeFinal(tokenCh);
+    report["withdraw/erc20"] = gasUsed(await erc20.withdraw(tokenCh.state.channelID, part, part));
+  });
+
+  it("no regressions", () => {
+    if (process.env.GAS_UPDATE_BASELINE !== undefined) {
+      writeGasReport(baselineFile, report);
+      return;
+    }
+    assert(fs.existsSync(baselineFile), `missing gas baseline ${baselineFile}, create it with GAS_UPDATE_BASELINE=1`);
+    const threshold = process.env.GAS_THRESHOLD !== undefined ? Number(process.env.GAS_THRESHOLD) : 0.01;
+    const regressions = compareGas(readGasReport(baselineFile), report, threshold);
+    assert(regressions.length == 0, "gas regressions:\n" + regressions.map(r =>
+      `  ${r.metric}: ${r.baseline} -> ${r.gas} (+${(100 * r.increase).toFixed(1)}%)`).join("\n"));
+  });
+});
+
+function total(balances: string[]): string {
+  return balances.reduce((acc, bal) => acc.add(new BN(bal)), new BN(0)).toString();
+}
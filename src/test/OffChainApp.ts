@@ -0,0 +1,154 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assert, should } from "chai";
+should();
+const truffleAssert = require('truffle-assertions');
+import Web3 from "web3";
+declare const web3: Web3;
+import {
+  AdjudicatorContract,
+  TrivialAppContract,
+  TrivialAppInstance,
+  AssetHolderETHContract,
+} from "../../types/truffle-contracts";
+import { DisputePhase, Params, State, Transaction } from "./Channel";
+import { ether, hash, currentTimestamp } from "../lib/web3";
+import { advanceBlockTime, fuzzSeed, itWithBlockRevert, random } from "../lib/test";
+import { AdjudicatorClient, Dispute } from "../lib/adjudicator";
+import { AppRegistry, OffChainApp, OffChainTrivialApp } from "../lib/app";
+import { checkProgress, checkTransition } from "../lib/validator";
+
+const Adjudicator = artifacts.require<AdjudicatorContract>("Adjudicator");
+const TrivialApp = artifacts.require<TrivialAppContract>("TrivialApp");
+const AssetHolderETH = artifacts.require<AssetHolderETHContract>("AssetHolderETH");
+
+// RejectingApp rejects every transition.
+class RejectingApp implements OffChainApp {
+  validTransition(_params: Params, _from: State, _to: State, _actorIdx: number) {
+    throw new Error("rejected");
+  }
+}
+
+contract("OffChainApp", async (accounts) => {
+  let client: AdjudicatorClient;
+  let app: TrivialAppInstance;
+  let asset = "";
+  let apps: AppRegistry;
+  const parts = [accounts[1], accounts[2]];
+  const balance = [ether(1), ether(2)];
+  const timeout = 60;
+  // The random transitions can be replayed by setting FUZZ_SEED to the seed
+  // in the error.
+  const baseSeed = fuzzSeed();
+
+  function newTransaction(version: string): Transaction {
+    let tx = new Transaction(parts, balance, timeout, web3.utils.randomHex(32), asset, app.address);
+    tx.state.version = version;
+    return tx;
+  }
+
+  // randomTransition returns a random successor of `from`, which is valid
+  // in about half of the cases.
+  function randomTransition(from: State, randomInt: (n: number) => number): State {
+    let to = State.deserialize(from.serialize());
+    to.version = (Number(from.version) + [0, 1, 1, 1, 2][randomInt(5)]).toString();
+    if (randomInt(4) == 0) {
+      to.outcome.balances[0][randomInt(2)] = ether(randomInt(4)).toString();
+    }
+    to.appData = web3.utils.bytesToHex(Array.from({ length: 1 + randomInt(8) }, () => randomInt(256)));
+    to.isFinal = randomInt(4) == 0;
+    return to;
+  }
+
+  before(async () => {
+    const adj = await Adjudicator.new();
+    client = new AdjudicatorClient(adj, accounts[0]);
+    app = await TrivialApp.new();
+    asset = (await AssetHolderETH.new(adj.address)).address;
+    apps = new AppRegistry();
+    apps.register(app.address.toUpperCase().replace("0X", "0x"), new OffChainTrivialApp());
+  });
+
+  it("registry is case-insensitive", () => {
+    assert(apps.get(app.address.toLowerCase()) !== undefined, "app not found");
+    assert(apps.get(accounts[0]) === undefined, "unexpected app");
+  });
+
+  it("reports app errors", () => {
+    const tx = newTransaction("2");
+    let to = State.deserialize(tx.state.serialize());
+    to.incrementVersion();
+    checkTransition(tx.params, tx.state, to, 0).length.should.equal(0);
+    const violations = checkTransition(tx.params, tx.state, to, 0, new RejectingApp());
+    violations.length.should.equal(1);
+    violations[0].reason.should.equal("rejected");
+  });
+
+  async function testRandomTransition(rand: () => number) {
+    const randomInt = (n: number) => Math.floor(rand() * n);
+    let tx = newTransaction((1 + randomInt(5)).toString());
+    tx.state.isFinal = randomInt(5) == 0;
+    await tx.sign(parts);
+    await client.register(tx.params, tx.state, tx.sigs);
+    await advanceBlockTime(timeout + 1);
+
+    const from = tx.state;
+    const to = randomTransition(from, randomInt);
+    const actorIdx = randomInt(2);
+    const sig = (await to.sign([parts[actorIdx]]))[0];
+
+    // The app itself accepts every transition on both sides.
+    await app.validTransition(tx.params.serialize(), from.serialize(), to.serialize(), actorIdx);
+    new OffChainTrivialApp().validTransition(tx.params, from, to, actorIdx);
+
+    const violations = checkProgress(tx.params, from, to, actorIdx, sig,
+      await client.dispute(tx.params.channelID()), await currentTimestamp(), undefined, apps);
+    const res = client.progress(tx.params, from, to, actorIdx, sig);
+    if (violations.length == 0) {
+      await res;
+    } else {
+      await truffleAssert.reverts(res, violations[0].reason);
+    }
+  }
+
+  for (let i = 0; i < 10; i++) {
+    itWithBlockRevert(`agrees with the contracts on random transition ${i}`, async () => {
+      const seed = baseSeed + i;
+      try {
+        await testRandomTransition(random(seed));
+      } catch (err) {
+        err.message = `seed ${seed}: ${err.message}`;
+        throw err;
+      }
+    });
+  }
+
+  it("reports unknown apps", async () => {
+    const tx = newTransaction("2");
+    let to = State.deserialize(tx.state.serialize());
+    to.incrementVersion();
+    const sig = (await to.sign([parts[0]]))[0];
+    const dispute: Dispute = {
+      timeout: 0,
+      challengeDuration: timeout,
+      version: "2",
+      hasApp: true,
+      phase: DisputePhase.DISPUTE,
+      stateHash: hash(tx.state.encode()),
+    };
+    const violations = checkProgress(tx.params, tx.state, to, 0, sig, dispute, 1, undefined, new AppRegistry());
+    violations.map(v => v.reason).should.deep.equal(["unknown app"]);
+  });
+});
@@ -0,0 +1,122 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assert, should } from "chai";
+should();
+import BN from "bn.js";
+import {
+  AdjudicatorContract,
+  TrivialAppContract,
+  AssetHolderETHContract,
+  AssetHolderETHInstance,
+} from "../../types/truffle-contracts";
+import { fundingID, itWithBlockRevert } from "../lib/test";
+import { AdjudicatorClient } from "../lib/adjudicator";
+import { ChannelBuilder } from "../lib/builder";
+import { ChannelTree } from "../lib/tree";
+import { OutcomeReport, simulateOutcome, fetchHoldings } from "../lib/outcome";
+
+const Adjudicator = artifacts.require<AdjudicatorContract>("Adjudicator");
+const TrivialApp = artifacts.require<TrivialAppContract>("TrivialApp");
+const AssetHolderETH = artifacts.require<AssetHolderETHContract>("AssetHolderETH");
+
+contract("Outcome", async (accounts) => {
+  let client: AdjudicatorClient;
+  let holders: AssetHolderETHInstance[];
+  let app = "";
+  const parts = [accounts[1], accounts[2]];
+
+  function newTree(): ChannelTree {
+    const ch = new ChannelBuilder()
+      .participants(parts)
+      .app(app)
+      .asset(holders[0].address, ["30", "10"])
+      .asset(holders[1].address, ["5", "15"])
+      .version(1)
+      .final()
+      .build();
+    return new ChannelTree(ch);
+  }
+
+  async function deposit(holder: AssetHolderETHInstance, id: string, amount: string) {
+    await holder.deposit(id, amount, { value: amount, from: accounts[3] });
+  }
+
+  // conclude concludes the channel and asserts that the on-chain holdings
+  // match the simulated report.
+  async function concludeAndCompare(tree: ChannelTree, report: OutcomeReport) {
+    const ch = tree.channel;
+    await client.concludeFinal(ch.params, ch.state, await ch.state.sign(parts));
+    const holdings = await fetchHoldings(tree);
+    report.assets.forEach((asset, a) => {
+      const byID = holdings.get(asset.asset.toLowerCase())!;
+      parts.forEach((part, p) => {
+        const actual = byID.get(fundingID(tree.channelID(), part).toLowerCase())!;
+        assert(actual.eq(asset.withdrawable[p]),
+          `asset ${a}, participant ${p}: holding ${actual}, simulated ${asset.withdrawable[p]}`);
+      });
+    });
+  }
+
+  function toStrings(bals: BN[]): string[] {
+    return bals.map(bal => bal.toString());
+  }
+
+  before(async () => {
+    const adj = await Adjudicator.new();
+    client = new AdjudicatorClient(adj, accounts[0]);
+    app = (await TrivialApp.new()).address;
+    holders = [await AssetHolderETH.new(adj.address), await AssetHolderETH.new(adj.address)];
+  });
+
+  itWithBlockRevert("funded channel", async () => {
+    const tree = newTree();
+    await deposit(holders[0], fundingID(tree.channelID(), parts[0]), "20");
+    await deposit(holders[0], fundingID(tree.channelID(), parts[1]), "20");
+    await deposit(holders[1], fundingID(tree.channelID(), parts[1]), "20");
+
+    const report = simulateOutcome(tree, await fetchHoldings(tree));
+    report.underfunded.should.be.false;
+    toStrings(report.assets[0].withdrawable).should.deep.equal(["30", "10"]);
+    toStrings(report.assets[1].withdrawable).should.deep.equal(["5", "15"]);
+    report.assets.forEach(asset => asset.lost.isZero().should.be.true);
+    await concludeAndCompare(tree, report);
+  });
+
+  itWithBlockRevert("underfunded asset keeps deposits", async () => {
+    const tree = newTree();
+    await deposit(holders[0], fundingID(tree.channelID(), parts[0]), "40");
+    await deposit(holders[1], fundingID(tree.channelID(), parts[0]), "19");
+
+    const report = simulateOutcome(tree, await fetchHoldings(tree));
+    report.underfunded.should.be.true;
+    report.assets[0].underfunded.should.be.false;
+    report.assets[1].underfunded.should.be.true;
+    toStrings(report.assets[1].withdrawable).should.deep.equal(["19", "0"]);
+    await concludeAndCompare(tree, report);
+  });
+
+  itWithBlockRevert("overfunding and channel deposits are lost", async () => {
+    const tree = newTree();
+    await deposit(holders[0], tree.channelID(), "25");
+    await deposit(holders[0], fundingID(tree.channelID(), parts[1]), "20");
+    await deposit(holders[1], fundingID(tree.channelID(), parts[0]), "20");
+
+    const report = simulateOutcome(tree, await fetchHoldings(tree));
+    report.underfunded.should.be.false;
+    report.assets[0].held.toString().should.equal("45");
+    report.assets[0].lost.toString().should.equal("5");
+    await concludeAndCompare(tree, report);
+  });
+});
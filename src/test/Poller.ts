@@ -0,0 +1,79 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { should } from "chai";
+should();
+import { sleep } from "../lib/test";
+import { Poller } from "../lib/poller";
+
+// CountingPoller fails every poll until `failures` is exhausted.
+class CountingPoller extends Poller {
+  polls = 0;
+  failures: number;
+
+  constructor(failures: number) {
+    super();
+    this.failures = failures;
+  }
+
+  async poll() {
+    this.polls++;
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error("node unreachable");
+    }
+  }
+}
+
+contract("Poller", async () => {
+  it("passes failed polls to the error handler and keeps polling", async () => {
+    const poller = new CountingPoller(2);
+    let errors: Error[] = [];
+    poller.start(10, err => errors.push(err));
+    try {
+      await sleep(100);
+    } finally {
+      poller.stop();
+    }
+    errors.map(err => err.message).should.deep.equal(["node unreachable", "node unreachable"]);
+    poller.polls.should.be.above(2);
+  });
+
+  it("stops polling", async () => {
+    const poller = new CountingPoller(0);
+    poller.start(10, err => { throw err; });
+    await sleep(50);
+    poller.stop();
+    const polls = poller.polls;
+    await sleep(50);
+    poller.polls.should.equal(polls);
+  });
+
+  it("skips polls while the previous one is running", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const poller = new class extends Poller {
+      async poll() {
+        maxRunning = Math.max(maxRunning, ++running);
+        await sleep(50);
+        running--;
+      }
+    }();
+    poller.start(10, err => { throw err; });
+    await sleep(150);
+    poller.stop();
+    maxRunning.should.equal(1);
+  });
+});
@@ -0,0 +1,202 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { assert, should } from "chai";
+should();
+import Web3 from "web3";
+declare const web3: Web3;
+import BN from "bn.js";
+import * as http from "http";
+import { AdjudicatorContract, AssetHolderETHContract } from "../../types/truffle-contracts";
+import { Channel, DisputePhase } from "./Channel";
+import { ether } from "../lib/web3";
+import { advanceBlockTime } from "../lib/test";
+import { AdjudicatorClient } from "../lib/adjudicator";
+import { AssetHolderClient } from "../lib/assetholder";
+import { ChannelBuilder } from "../lib/builder";
+import { PrivateKeySigner } from "../lib/signer";
+import { Relayer, RelayerClient } from "../lib/relayer";
+
+const Adjudicator = artifacts.require<AdjudicatorContract>("Adjudicator");
+const AssetHolderETH = artifacts.require<AssetHolderETHContract>("AssetHolderETH");
+
+contract("Relayer", async (accounts) => {
+  // The participants sign with local keys and hold no ETH.
+  const parts = [0, 1].map(_ => new PrivateKeySigner(web3.eth.accounts.create().privateKey));
+  const receiver = accounts[3];
+  const relayerAccount = accounts[5];
+  const frontRunner = accounts[6];
+  const minFee = ether(1);
+  const timeout = 60;
+  // Ganache's CHAINID opcode returns 1 independently of `eth_chainId`.
+  const chainId = 1;
+  let adj: AdjudicatorClient;
+  let ah: AssetHolderClient;
+  let ch: Channel;
+  let relayer: Relayer;
+  let client: RelayerClient;
+
+  async function rejects(p: Promise<any>, reason: string) {
+    try {
+      await p;
+    } catch (err) {
+      err.message.should.include(reason);
+      return;
+    }
+    assert.fail(`expected error "${reason}"`);
+  }
+
+  async function gasCost(txHash: string): Promise<BN> {
+    const tx = await web3.eth.getTransaction(txHash);
+    const receipt = await web3.eth.getTransactionReceipt(txHash);
+    return web3.utils.toBN(tx.gasPrice).muln(receipt.gasUsed);
+  }
+
+  before(async () => {
+    adj = new AdjudicatorClient(await Adjudicator.new(), relayerAccount);
+    ah = new AssetHolderClient(await AssetHolderETH.new(adj.address), relayerAccount);
+    ch = new ChannelBuilder()
+      .participants(parts.map(p => p.address))
+      .challengeDuration(timeout)
+      .asset(ah.address, [ether(3), ether(2)])
+      .version(1)
+      .build();
+    const funder = new AssetHolderClient(ah.ah, accounts[0]);
+    await funder.fund(ch.state.channelID, parts[0].address, ether(3));
+    await funder.fund(ch.state.channelID, parts[1].address, ether(2));
+    relayer = new Relayer(adj, [ah], chainId, minFee, [parts[0].address]);
+    client = new RelayerClient(`http://127.0.0.1:${await relayer.listen()}`);
+  });
+
+  after(async () => relayer.close());
+
+  // status sends a raw request with `body` and resolves to the response status.
+  function status(method: string, path: string, body: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const req = http.request(client.url + path, { method: method }, res => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      });
+      req.on("error", reject);
+      req.end(body);
+    });
+  }
+
+  it("answers unknown endpoints with 404", async () => {
+    (await status("GET", "/register", "")).should.equal(404);
+    (await status("POST", "/unknown", "not json")).should.equal(404);
+    (await status("POST", "/register", "not json")).should.equal(400);
+  });
+
+  it("answers too large bodies with 413", async () => {
+    (await status("POST", "/register", "x".repeat(relayer.maxBodySize + 1))).should.equal(413);
+  });
+
+  it("rejects registration of channel without registrant", async () => {
+    const others = [0, 1].map(_ => new PrivateKeySigner(web3.eth.accounts.create().privateKey));
+    const other = new ChannelBuilder()
+      .participants(others.map(p => p.address))
+      .challengeDuration(timeout)
+      .asset(ah.address, [ether(1), ether(1)])
+      .version(1)
+      .build();
+    await rejects(client.register(other.params, other.state, await other.state.sign(others)), "not allowed");
+  });
+
+  it("rejects registration with invalid signatures", async () => {
+    const sigs = await ch.state.sign([parts[1], parts[0]]);
+    await rejects(client.register(ch.params, ch.state, sigs), "invalid signature");
+  });
+
+  it("relays registration", async () => {
+    await client.register(ch.params, ch.state, await ch.state.sign(parts));
+    (await adj.dispute(ch.state.channelID)).phase.should.equal(DisputePhase.DISPUTE);
+  });
+
+  it("rejects registration of registered version", async () => {
+    await rejects(client.register(ch.params, ch.state, await ch.state.sign(parts)), "invalid version");
+  });
+
+  it("rejects withdrawal of unsettled channel", async () => {
+    const fee = { amount: minFee, relayer: relayerAccount };
+    const { auth, sig } = await ah.authorize(ch.state.channelID, parts[0], receiver, ether(3), fee);
+    await rejects(client.withdraw(ah.address, auth, sig), "channel not settled");
+  });
+
+  it("conclude", async () => {
+    await advanceBlockTime(timeout + 1);
+    await adj.conclude(ch.params, ch.state);
+    (await ah.settled(ch.state.channelID)).should.be.true;
+  });
+
+  it("rejects withdrawal with too low fee", async () => {
+    const fee = { amount: minFee.subn(1), relayer: relayerAccount };
+    const { auth, sig } = await ah.authorize(ch.state.channelID, parts[0], receiver, ether(3), fee);
+    await rejects(client.withdraw(ah.address, auth, sig), "fee too low");
+  });
+
+  it("rejects withdrawal with fee to other relayer", async () => {
+    const fee = { amount: minFee, relayer: frontRunner };
+    const { auth, sig } = await ah.authorize(ch.state.channelID, parts[0], receiver, ether(3), fee);
+    await rejects(client.withdraw(ah.address, auth, sig), "fee must be paid to relayer");
+  });
+
+  it("rejects withdrawal with fee above amount", async () => {
+    const fee = { amount: ether(2), relayer: relayerAccount };
+    const { auth, sig } = await ah.authorize(ch.state.channelID, parts[0], receiver, ether(1), fee);
+    await rejects(client.withdraw(ah.address, auth, sig), "fee exceeds amount");
+  });
+
+  it("rejects withdrawal above holdings without sending it", async () => {
+    const fee = { amount: minFee, relayer: relayerAccount };
+    const { auth, sig } = await ah.authorize(ch.state.channelID, parts[0], receiver, ether(4), fee);
+    const relayerBefore = await ah.balanceOf(relayerAccount);
+    await rejects(client.withdraw(ah.address, auth, sig), "insufficient holdings for withdrawal");
+    assert((await ah.balanceOf(relayerAccount)).eq(relayerBefore), "relayer paid for gas");
+  });
+
+  it("rejects withdrawal from unknown asset holder", async () => {
+    const fee = { amount: minFee, relayer: relayerAccount };
+    const { auth, sig } = await ah.authorize(ch.state.channelID, parts[0], receiver, ether(3), fee);
+    await rejects(client.withdraw(adj.address, auth, sig), "unknown asset holder");
+  });
+
+  it("relays withdrawal and receives fee", async () => {
+    const fee = { amount: minFee, relayer: relayerAccount };
+    const { auth, sig } = await ah.authorize(ch.state.channelID, parts[0], receiver, ether(3), fee);
+    const receiverBefore = await ah.balanceOf(receiver);
+    const relayerBefore = await ah.balanceOf(relayerAccount);
+    const { txHash } = await client.withdraw(ah.address, auth, sig);
+    const tx = await web3.eth.getTransaction(txHash);
+    tx.from.should.equal(relayerAccount);
+    assert((await ah.balanceOf(receiver)).eq(receiverBefore.add(ether(2))), "wrong receiver balance");
+    assert((await ah.balanceOf(relayerAccount)).eq(relayerBefore.add(minFee).sub(await gasCost(txHash))), "wrong relayer balance");
+    assert((await ah.balanceOf(parts[0].address)).isZero(), "participant paid for gas");
+
+    // The same authorization cannot be relayed again.
+    await rejects(client.withdraw(ah.address, auth, sig), "invalid withdrawal nonce");
+  });
+
+  it("front-running the relayer does not take the fee", async () => {
+    const fee = { amount: minFee, relayer: relayerAccount };
+    const { auth, sig } = await ah.authorize(ch.state.channelID, parts[1], receiver, ether(2), fee);
+    const relayerBefore = await ah.balanceOf(relayerAccount);
+    const frontRunnerBefore = await ah.balanceOf(frontRunner);
+    const res = await ah.ah.withdraw(auth, sig, { from: frontRunner });
+    assert((await ah.balanceOf(relayerAccount)).eq(relayerBefore.add(minFee)), "relayer did not receive fee");
+    assert((await ah.balanceOf(frontRunner)).eq(frontRunnerBefore.sub(await gasCost(res.tx))), "front-runner received fee");
+    await rejects(client.withdraw(ah.address, auth, sig), "invalid withdrawal nonce");
+  });
+});
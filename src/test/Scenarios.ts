@@ -0,0 +1,134 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { ether } from "../lib/web3";
+import { runScenario } from "../lib/scenario";
+
+contract("Scenarios", async (accounts) => {
+  runScenario({
+    name: "conclude with subchannels",
+    // ledger locks sub0 and sub3, sub0 locks sub1 and sub2. The 12 ether of
+    // the ledger are 6 in its balances, 4 locked in sub0 including sub1 and
+    // sub2, and 2 in sub3.
+    participants: ["alice", "bob"],
+    channels: {
+      ledger: {},
+      sub0: {},
+      sub1: {},
+      sub2: {},
+      sub3: { app: false },
+    },
+    steps: [
+      { action: "deposit", channel: "ledger", participant: "alice", amount: ether(6) },
+      { action: "deposit", channel: "ledger", participant: "bob", amount: ether(6) },
+      { action: "concludeFinal", channel: "sub1", state: { version: 3, balances: [ether(1), ether(1)], final: true } },
+      { action: "register", channel: "sub2", state: { version: 2, balances: [ether(1), 0] } },
+      { action: "register", channel: "sub0", state: { version: 2, balances: [0, ether(1)], subChannels: ["sub1", "sub2"] } },
+      { action: "register", channel: "sub3", state: { version: 5, balances: [ether(1), ether(1)] } },
+      {
+        action: "register",
+        channel: "ledger",
+        state: { version: 10, balances: [ether(3), ether(3)], subChannels: ["sub0", "sub3"] },
+        expect: { events: [{ channel: "ledger", phase: "DISPUTE", version: 10 }] },
+      },
+      { action: "conclude", channel: "ledger", expect: { reverts: "timeout not passed yet" } },
+      { action: "advanceTime", seconds: 121 },
+      {
+        action: "conclude",
+        channel: "ledger",
+        expect: { events: [{ channel: "ledger", phase: "CONCLUDED" }, { channel: "sub3", phase: "CONCLUDED" }] },
+      },
+      { action: "expectPhase", channel: "sub2", phase: "CONCLUDED" },
+      { action: "expectHoldings", channel: "ledger", holdings: [ether(6), ether(6)] },
+      { action: "withdraw", channel: "ledger", participant: "alice" },
+      { action: "expectHoldings", channel: "ledger", holdings: [0, ether(6)] },
+    ],
+  }, accounts);
+
+  runScenario({
+    name: "refute and progress",
+    participants: ["alice", "bob"],
+    channels: { game: {} },
+    steps: [
+      { action: "deposit", channel: "game", participant: "alice", amount: ether(1) },
+      { action: "deposit", channel: "game", participant: "bob", amount: ether(1) },
+      { action: "register", channel: "game", state: { version: 1, balances: [ether(1), ether(1)] } },
+      { action: "register", channel: "game", state: { version: 2, balances: [ether(2), 0] } },
+      {
+        action: "register",
+        channel: "game",
+        state: { version: 1, balances: [ether(1), ether(1)] },
+        expect: { reverts: "invalid version" },
+      },
+      {
+        action: "progress",
+        channel: "game",
+        state: { version: 3, balances: [ether(1), ether(1)] },
+        actor: "bob",
+        expect: { reverts: "timeout not passed" },
+      },
+      { action: "advanceTime", seconds: 61 },
+      {
+        action: "register",
+        channel: "game",
+        state: { version: 3, balances: [ether(1), ether(1)] },
+        expect: { reverts: "refutation timeout passed" },
+      },
+      {
+        action: "progress",
+        channel: "game",
+        state: { version: 4, balances: [ether(1), ether(1)] },
+        actor: "bob",
+        expect: { reverts: "version must increment by one" },
+      },
+      {
+        action: "progress",
+        channel: "game",
+        state: { version: 3, balances: [ether(1), ether(1)] },
+        actor: "bob",
+        expect: { events: [{ channel: "game", phase: "FORCEEXEC", version: 3 }] },
+      },
+      { action: "conclude", channel: "game", expect: { reverts: "timeout not passed yet" } },
+      { action: "advanceTime", seconds: 61 },
+      { action: "conclude", channel: "game" },
+      { action: "expectHoldings", channel: "game", holdings: [ether(1), ether(1)] },
+    ],
+  }, accounts);
+
+  runScenario({
+    name: "concludeFinal bypasses dispute",
+    participants: ["alice", "bob"],
+    channels: { ledger: { app: false } },
+    steps: [
+      { action: "deposit", channel: "ledger", participant: "alice", amount: ether(2) },
+      { action: "register", channel: "ledger", state: { version: 1, balances: [ether(2), 0] } },
+      {
+        action: "concludeFinal",
+        channel: "ledger",
+        state: { version: 2, balances: [ether(1), ether(1)], final: true },
+        signers: ["alice", "alice"],
+        expect: { reverts: "invalid signature" },
+      },
+      {
+        action: "concludeFinal",
+        channel: "ledger",
+        state: { version: 2, balances: [ether(1), ether(1)], final: true },
+        expect: { events: [{ channel: "ledger", phase: "CONCLUDED", version: 2 }] },
+      },
+      { action: "expectPhase", channel: "ledger", phase: "CONCLUDED" },
+      { action: "withdraw", channel: "ledger", participant: "bob" },
+      { action: "expectHoldings", channel: "ledger", holdings: [ether(1), 0] },
+    ],
+  }, accounts);
+});
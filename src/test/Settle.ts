@@ -0,0 +1,160 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { assert, should } from "chai";
+should();
+import Web3 from "web3";
+declare const web3: Web3;
+import BN from "bn.js";
+import {
+  AdjudicatorContract,
+  AssetHolderETHContract,
+  AssetHolderERC20Contract,
+  PerunTokenContract,
+} from "../../types/truffle-contracts";
+import { Channel, DisputePhase } from "./Channel";
+import { ether, hash } from "../lib/web3";
+import { advanceBlockTime, itWithBlockRevert } from "../lib/test";
+import { AdjudicatorClient } from "../lib/adjudicator";
+import { AssetHolderClient } from "../lib/assetholder";
+import { ChannelBuilder } from "../lib/builder";
+import { PrivateKeySigner } from "../lib/signer";
+import { ChannelSettler, OutcomeTimeoutError } from "../lib/settle";
+
+const Adjudicator = artifacts.require<AdjudicatorContract>("Adjudicator");
+const AssetHolderETH = artifacts.require<AssetHolderETHContract>("AssetHolderETH");
+const AssetHolderERC20 = artifacts.require<AssetHolderERC20Contract>("AssetHolderERC20");
+const PerunToken = artifacts.require<PerunTokenContract>("PerunToken");
+
+contract("Settle", async (accounts) => {
+  const parts = [accounts[1], accounts[2]];
+  const receivers = [accounts[3], accounts[4]];
+  const timeout = 60;
+  let adj: AdjudicatorClient;
+  let assets: string[];
+  // clients[a] is the client of asset a, which is ETH for 0 and ERC20 for 1.
+  let clients: AssetHolderClient[];
+  let nonce = 0;
+
+  // newChannel returns a channel with the balances in ether on the ETH and
+  // ERC20 AssetHolder.
+  function newChannel(participants: string[], balances: number[][]): Channel {
+    return new ChannelBuilder()
+      .participants(participants)
+      .challengeDuration(timeout)
+      .nonce(hash((++nonce).toString()))
+      .asset(assets[0], balances[0].map(ether))
+      .asset(assets[1], balances[1].map(ether))
+      .version(1)
+      .build();
+  }
+
+  // fund deposits the balances of all participants from `accounts[0]`.
+  async function fund(ch: Channel) {
+    for (let a = 0; a < clients.length; a++) {
+      for (let p = 0; p < ch.params.participants.length; p++) {
+        const amount = new BN(ch.state.outcome.balances[a][p]);
+        if (!amount.isZero()) {
+          await clients[a].fund(ch.state.channelID, ch.params.participants[p], amount);
+        }
+      }
+    }
+  }
+
+  async function balances(who: string[]): Promise<BN[][]> {
+    return Promise.all(clients.map(client => Promise.all(who.map(w => client.balanceOf(w)))));
+  }
+
+  before(async () => {
+    const token = await PerunToken.new(accounts, ether(100));
+    adj = new AdjudicatorClient(await Adjudicator.new(), accounts[0]);
+    assets = [
+      (await AssetHolderETH.new(adj.address)).address,
+      (await AssetHolderERC20.new(adj.address, token.address)).address,
+    ];
+    clients = await Promise.all(assets.map(asset => AssetHolderClient.at(asset, accounts[0])));
+  });
+
+  itWithBlockRevert("settles final state on ETH and ERC20", async () => {
+    const ch = newChannel(parts, [[1, 2], [3, 4]]);
+    await fund(ch);
+    ch.state.isFinal = true;
+    const sigs = await ch.state.sign(parts);
+    const before = await balances(receivers);
+
+    const settler = await ChannelSettler.at(adj, ch.params, ch.state);
+    const report = await settler.settle(ch.state, parts, { sigs: sigs, receivers: receivers });
+    report.updates.map(u => u.phase).should.deep.equal([DisputePhase.CONCLUDED]);
+    report.withdrawals.map(w => [w.asset, w.participant, w.receiver, w.amount.toString()]).should.deep.equal([
+      [assets[0], parts[0], receivers[0], ether(1).toString()],
+      [assets[0], parts[1], receivers[1], ether(2).toString()],
+      [assets[1], parts[0], receivers[0], ether(3).toString()],
+      [assets[1], parts[1], receivers[1], ether(4).toString()],
+    ]);
+
+    const after = await balances(receivers);
+    after.forEach((bals, a) => bals.forEach((bal, p) => {
+      assert(bal.eq(before[a][p].add(new BN(ch.state.outcome.balances[a][p]))), `wrong balance of receiver ${p} on asset ${a}`);
+    }));
+    for (const client of clients) {
+      for (const part of parts) {
+        assert((await client.holdings(client.fundingID(ch.state.channelID, part))).isZero(), "holding not withdrawn");
+      }
+    }
+  });
+
+  itWithBlockRevert("settles registered state after timeout with local signer", async () => {
+    const local = new PrivateKeySigner(web3.eth.accounts.create().privateKey);
+    const ch = newChannel([parts[0], local.address], [[2, 0], [1, 1]]);
+    await fund(ch);
+    await adj.register(ch.params, ch.state, await ch.state.sign([parts[0], local]));
+    await advanceBlockTime(timeout + 1);
+
+    const settler = await ChannelSettler.at(adj, ch.params, ch.state);
+    const report = await settler.settle(ch.state, [parts[0], local]);
+    // The local signer has no holdings of ETH.
+    report.withdrawals.map(w => [w.asset, w.receiver]).should.deep.equal([
+      [assets[0], parts[0]],
+      [assets[1], parts[0]],
+      [assets[1], local.address],
+    ]);
+    assert((await clients[1].balanceOf(local.address)).eq(ether(1)), "wrong token balance of local signer");
+  });
+
+  itWithBlockRevert("times out if outcome is not set", async () => {
+    const ch = newChannel(parts, [[1, 2], [3, 4]]);
+    const settler = await ChannelSettler.at(adj, ch.params, ch.state);
+    try {
+      await settler.waitOutcomes(ch.state.channelID, await web3.eth.getBlockNumber(), 100, 10);
+    } catch (err) {
+      err.should.be.instanceOf(OutcomeTimeoutError);
+      (err as OutcomeTimeoutError).missing.should.deep.equal(assets);
+      return;
+    }
+    assert.fail("waitOutcomes should time out");
+  });
+
+  itWithBlockRevert("rejects signers that are not participants", async () => {
+    const ch = newChannel(parts, [[1, 2], [3, 4]]);
+    const settler = await ChannelSettler.at(adj, ch.params, ch.state);
+    try {
+      await settler.withdraw(ch.state.channelID, [parts[1], parts[0]]);
+    } catch (err) {
+      err.message.should.include("is not participant");
+      return;
+    }
+    assert.fail("withdraw should fail");
+  });
+});
@@ -0,0 +1,123 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { expect, should } from "chai";
+should();
+import BN from "bn.js";
+import Web3 from "web3";
+declare const web3: Web3;
+import {
+  AdjudicatorContract,
+  AdjudicatorInstance,
+  TrivialAppContract,
+} from "../../types/truffle-contracts";
+import { Transaction, Authorization } from "./Channel";
+import { ether, hash } from "../lib/web3";
+import { domain, stateTypedData, authorizationTypedData } from "../lib/eip712";
+import { PrivateKeySigner } from "../lib/signer";
+import {
+  recoverStateSigner,
+  verifyStateSignature,
+  verifyStateSignatures,
+  verifyAuthorization,
+  normalizeSignature,
+} from "../lib/sig";
+
+const Adjudicator = artifacts.require<AdjudicatorContract>("Adjudicator");
+const TrivialApp = artifacts.require<TrivialAppContract>("TrivialApp");
+
+contract("Sig", async (accounts) => {
+  let adj: AdjudicatorInstance;
+  let tx: Transaction;
+  const parts = [accounts[1], accounts[2]];
+  const timeout = 60;
+  const secp256k1n = new BN("FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141", 16);
+
+  // withV replaces the recovery id of the signature.
+  function withV(sig: string, v: number): string {
+    return sig.slice(0, 130) + v.toString(16).padStart(2, "0");
+  }
+
+  // flipS returns the other valid signature with the same `r`, which has a
+  // high `s` value and the opposite recovery id.
+  function flipS(sig: string): string {
+    const s = new BN(sig.slice(66, 130), 16);
+    const v = parseInt(sig.slice(130, 132), 16);
+    return sig.slice(0, 66) + secp256k1n.sub(s).toString(16, 64) + (v == 27 ? "1c" : "1b");
+  }
+
+  before(async () => {
+    adj = await Adjudicator.new();
+    const app = (await TrivialApp.new()).address;
+    tx = new Transaction(parts, [ether(1), ether(2)], timeout, "1", accounts[3], app);
+    tx.state.version = "1";
+    await tx.sign(parts);
+  });
+
+  describe("states", () => {
+    it("recovers signer", () => {
+      recoverStateSigner(tx.state, tx.sigs[0]).should.equal(parts[0]);
+      recoverStateSigner(tx.state, tx.sigs[1]).should.equal(parts[1]);
+    });
+
+    it("rejects malformed signatures", () => {
+      expect(() => recoverStateSigner(tx.state, tx.sigs[0].slice(0, 128)))
+        .to.throw("ECDSA: invalid signature length");
+      expect(() => recoverStateSigner(tx.state, withV(tx.sigs[0], 1)))
+        .to.throw("ECDSA: invalid signature 'v' value");
+      expect(() => recoverStateSigner(tx.state, flipS(tx.sigs[0])))
+        .to.throw("ECDSA: invalid signature 's' value");
+      verifyStateSignature(tx.state, flipS(tx.sigs[0]), parts[0]).should.be.false;
+    });
+
+    it("normalizes v", () => {
+      const v = parseInt(tx.sigs[0].slice(130, 132), 16);
+      const sig = normalizeSignature(withV(tx.sigs[0], v - 27));
+      sig.should.equal(tx.sigs[0]);
+      normalizeSignature(sig).should.equal(sig);
+    });
+
+    it("verifies signatures in participant order", () => {
+      verifyStateSignatures(tx.params, tx.state, tx.sigs).should.be.true;
+      verifyStateSignatures(tx.params, tx.state, [tx.sigs[1], tx.sigs[0]]).should.be.false;
+      verifyStateSignatures(tx.params, tx.state, [tx.sigs[0]]).should.be.false;
+    });
+
+    it("verifies typed signatures only with domain", async () => {
+      const signer = new PrivateKeySigner(web3.eth.accounts.create().privateKey);
+      const dom = domain(adj.address, 1);
+      const sig = await signer.signTypedData(stateTypedData(tx.state, dom));
+      verifyStateSignature(tx.state, sig, signer.address).should.be.false;
+      verifyStateSignature(tx.state, sig, signer.address, dom).should.be.true;
+      verifyStateSignature(tx.state, sig, signer.address, domain(accounts[0], 1)).should.be.false;
+    });
+  });
+
+  describe("authorizations", () => {
+    const signer = new PrivateKeySigner(web3.eth.accounts.create().privateKey);
+    const auth = new Authorization(hash("channel"), signer.address, accounts[4], ether(1).toString());
+
+    it("verifies participant signature", async () => {
+      verifyAuthorization(auth, await auth.sign(signer)).should.be.true;
+      verifyAuthorization(auth, await auth.sign(accounts[4])).should.be.false;
+    });
+
+    it("verifies typed signature only with domain", async () => {
+      const dom = domain(accounts[5], 1);
+      const sig = await signer.signTypedData(authorizationTypedData(auth, dom));
+      verifyAuthorization(auth, sig).should.be.false;
+      verifyAuthorization(auth, sig, dom).should.be.true;
+    });
+  });
+});
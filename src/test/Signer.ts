@@ -0,0 +1,124 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assert, expect, should } from "chai";
+should();
+import Web3 from "web3";
+declare const web3: Web3;
+import {
+  AdjudicatorContract,
+  AdjudicatorInstance,
+  TrivialAppContract,
+  AssetHolderETHContract,
+  AssetHolderETHInstance,
+} from "../../types/truffle-contracts";
+import { Transaction, Authorization } from "./Channel";
+import { ether, hash } from "../lib/web3";
+import { fundingID, describeWithBlockRevert } from "../lib/test";
+import { Signer, NodeSigner, PrivateKeySigner, Keystore } from "../lib/signer";
+
+const Adjudicator = artifacts.require<AdjudicatorContract>("Adjudicator");
+const TrivialApp = artifacts.require<TrivialAppContract>("TrivialApp");
+const AssetHolderETH = artifacts.require<AssetHolderETHContract>("AssetHolderETH");
+
+contract("Signer", async (accounts) => {
+  let adj: AdjudicatorInstance;
+  let ah: AssetHolderETHInstance;
+  let app = "";
+  const keystore = new Keystore();
+  const parts = [keystore.create(), keystore.create()];
+  const balance = [ether(1), ether(2)];
+  const timeout = 60;
+
+  function recover(data: string, sig: string): string {
+    return web3.eth.accounts.recover(hash(data), sig);
+  }
+
+  before(async () => {
+    adj = await Adjudicator.new();
+    app = (await TrivialApp.new()).address;
+    ah = await AssetHolderETH.new(adj.address);
+  });
+
+  describe("signers", () => {
+    it("private key signer", async () => {
+      const account = web3.eth.accounts.create();
+      const signer = new PrivateKeySigner(account.privateKey);
+      signer.address.should.equal(account.address);
+      const data = web3.eth.abi.encodeParameter("uint256", "42");
+      recover(data, await signer.sign(data)).should.equal(account.address);
+    });
+
+    it("node signer", async () => {
+      const signer = new NodeSigner(accounts[1]);
+      const data = web3.eth.abi.encodeParameter("uint256", "42");
+      recover(data, await signer.sign(data)).should.equal(accounts[1]);
+    });
+
+    it("keystore", () => {
+      keystore.addresses().should.deep.equal(parts);
+      assert(keystore.has(parts[0].toLowerCase()), "address lookup must be case-insensitive");
+      keystore.signer(parts[1]).address.should.equal(parts[1]);
+      expect(() => keystore.signer(accounts[0])).to.throw("unknown account");
+    });
+
+    it("keystore with encrypted key", () => {
+      const account = web3.eth.accounts.create();
+      const store = new Keystore();
+      const address = store.addEncrypted(account.encrypt("secret"), "secret");
+      address.should.equal(account.address);
+      store.remove(address);
+      store.has(address).should.be.false;
+    });
+  });
+
+  describeWithBlockRevert("Adjudicator", () => {
+    it("register with keystore signers", async () => {
+      let tx = new Transaction(parts, balance, timeout, "1", ah.address, app);
+      tx.state.version = "1";
+      await tx.sign(parts.map(part => keystore.signer(part)));
+      await adj.register(tx.params.serialize(), tx.state.serialize(), tx.sigs);
+    });
+
+    it("concludeFinal with node and private key signers", async () => {
+      const signers: (string | Signer)[] = [accounts[1], keystore.signer(parts[1])];
+      let tx = new Transaction([accounts[1], parts[1]], balance, timeout, "2", ah.address, app);
+      tx.state.isFinal = true;
+      const sigs = await tx.state.sign(signers);
+      await adj.concludeFinal(tx.params.serialize(), tx.state.serialize(), sigs);
+    });
+  });
+
+  describeWithBlockRevert("AssetHolder", () => {
+    const channelID = hash("channel");
+    const adjAccount = accounts[9];
+    const receiver = accounts[3];
+    let holder: AssetHolderETHInstance;
+
+    before(async () => {
+      holder = await AssetHolderETH.new(adjAccount);
+      await holder.deposit(fundingID(channelID, parts[0]), ether(1), { value: ether(1), from: accounts[1] });
+      await holder.setOutcome(channelID, [parts[0]], [ether(1)], { from: adjAccount });
+    });
+
+    it("withdraw with private key signer", async () => {
+      const balanceBefore = web3.utils.toBN(await web3.eth.getBalance(receiver));
+      const auth = new Authorization(channelID, parts[0], receiver, ether(1).toString());
+      const sig = await auth.sign(keystore.signer(parts[0]));
+      await holder.withdraw(auth, sig, { from: accounts[5] });
+      const balanceAfter = web3.utils.toBN(await web3.eth.getBalance(receiver));
+      assert(balanceAfter.eq(balanceBefore.add(ether(1))), "wrong receiver balance");
+    });
+  });
+});
@@ -0,0 +1,218 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assert, should } from "chai";
+should();
+const truffleAssert = require('truffle-assertions');
+import {
+  AdjudicatorContract,
+  AssetHolderETHContract,
+  AssetHolderETHInstance,
+  TicTacToeAppContract,
+  TicTacToeAppInstance,
+} from "../../types/truffle-contracts";
+import { DisputePhase, State, Transaction } from "./Channel";
+import { ether, currentTimestamp } from "../lib/web3";
+import { advanceBlockTime, describeWithBlockRevert, fundingID } from "../lib/test";
+import { AdjudicatorClient } from "../lib/adjudicator";
+import { AppRegistry } from "../lib/app";
+import { checkProgress } from "../lib/validator";
+import { TicTacToeApp, TicTacToeData, move } from "../lib/tictactoe";
+
+const Adjudicator = artifacts.require<AdjudicatorContract>("Adjudicator");
+const AssetHolderETH = artifacts.require<AssetHolderETHContract>("AssetHolderETH");
+const TicTacToe = artifacts.require<TicTacToeAppContract>("TicTacToeApp");
+
+contract("TicTacToeApp", async (accounts) => {
+  let client: AdjudicatorClient;
+  let ah: AssetHolderETHInstance;
+  let app: TicTacToeAppInstance;
+  let apps: AppRegistry;
+  const parts = [accounts[1], accounts[2]];
+  const balance = [ether(1), ether(2)];
+  const timeout = 60;
+
+  function newTransaction(): Transaction {
+    let tx = new Transaction(parts, balance, timeout, "0x7ac70e", ah.address, app.address);
+    tx.state.version = "1";
+    tx.state.appData = new TicTacToeData().encode();
+    return tx;
+  }
+
+  before(async () => {
+    const adj = await Adjudicator.new();
+    client = new AdjudicatorClient(adj, accounts[0]);
+    ah = await AssetHolderETH.new(adj.address);
+    app = await TicTacToe.new();
+    apps = new AppRegistry();
+    apps.register(app.address, new TicTacToeApp());
+  });
+
+  describe("rules", () => {
+    const tests = [
+      {
+        desc: "valid move",
+        prepare: (from: State) => move(from, 4),
+        actorIdx: 0,
+        reason: undefined,
+      },
+      {
+        desc: "wrong actor",
+        prepare: (from: State) => move(from, 4),
+        actorIdx: 1,
+        reason: "actor not allowed to move",
+      },
+      {
+        desc: "same actor twice",
+        prepare: (from: State) => {
+          let to = move(from, 4);
+          to.appData = new TicTacToeData(0, TicTacToeData.decode(to.appData).grid).encode();
+          return to;
+        },
+        actorIdx: 0,
+        reason: "next actor must alternate",
+      },
+      {
+        desc: "two marks",
+        prepare: (from: State) => {
+          let to = move(from, 4);
+          let data = TicTacToeData.decode(to.appData);
+          data.grid[0] = 1;
+          to.appData = data.encode();
+          return to;
+        },
+        actorIdx: 0,
+        reason: "exactly one field must be marked",
+      },
+      {
+        desc: "opponent's mark",
+        prepare: (from: State) => {
+          let to = move(from, 4);
+          let data = TicTacToeData.decode(to.appData);
+          data.grid[4] = 2;
+          to.appData = data.encode();
+          return to;
+        },
+        actorIdx: 0,
+        reason: "invalid mark",
+      },
+      {
+        desc: "invalid appData",
+        prepare: (from: State) => {
+          let to = move(from, 4);
+          to.appData = "0x01";
+          return to;
+        },
+        actorIdx: 0,
+        reason: "invalid new appData length",
+      },
+      {
+        desc: "final before the end",
+        prepare: (from: State) => {
+          let to = move(from, 4);
+          to.isFinal = true;
+          return to;
+        },
+        actorIdx: 0,
+        reason: "state must not be final",
+      },
+      {
+        desc: "balances change",
+        prepare: (from: State) => {
+          let to = move(from, 4);
+          to.outcome.balances[0] = to.outcome.balances[0].slice().reverse();
+          return to;
+        },
+        actorIdx: 0,
+        reason: "balances must not change",
+      },
+    ];
+
+    tests.forEach(test => {
+      it(test.desc, async () => {
+        const tx = newTransaction();
+        const to = test.prepare(tx.state);
+        let reason: string | undefined;
+        try {
+          new TicTacToeApp().validTransition(tx.params, tx.state, to, test.actorIdx);
+        } catch (err) {
+          reason = err.message;
+        }
+        assert(reason === test.reason, `off-chain app: expected ${test.reason}, got ${reason}`);
+        const res = app.validTransition(tx.params.serialize(), tx.state.serialize(), to.serialize(), test.actorIdx);
+        if (test.reason === undefined) {
+          await res;
+        } else {
+          await truffleAssert.reverts(res, test.reason);
+        }
+      });
+    });
+
+    it("winning move must pay the winner", async () => {
+      let state = newTransaction().state;
+      [0, 3, 1, 4].forEach(field => { state = move(state, field) });
+      let to = move(state, 2);
+      to.isFinal.should.be.true;
+      to.outcome.balances[0].should.deep.equal([ether(3).toString(), "0"]);
+      to.outcome.balances[0] = state.outcome.balances[0];
+      const reason = "winner must receive all funds";
+      (() => new TicTacToeApp().validTransition(newTransaction().params, state, to, 0)).should.throw(reason);
+      await truffleAssert.reverts(
+        app.validTransition(newTransaction().params.serialize(), state.serialize(), to.serialize(), 0), reason);
+    });
+  });
+
+  describeWithBlockRevert("game in dispute", () => {
+    let tx: Transaction;
+
+    before(async () => {
+      tx = newTransaction();
+      await tx.sign(parts);
+      for (let i = 0; i < parts.length; i++) {
+        const id = fundingID(tx.state.channelID, parts[i]);
+        await ah.deposit(id, balance[i], { value: balance[i], from: parts[i] });
+      }
+    });
+
+    it("register and wait for timeout", async () => {
+      await client.register(tx.params, tx.state, tx.sigs);
+      await advanceBlockTime(timeout + 1);
+    });
+
+    it("play moves on-chain", async () => {
+      let state = tx.state;
+      for (const field of [0, 3, 1, 4, 2]) {
+        const actorIdx = TicTacToeData.decode(state.appData).next;
+        const to = move(state, field);
+        const sig = (await to.sign([parts[actorIdx]]))[0];
+        const dispute = await client.dispute(tx.state.channelID);
+        const violations = checkProgress(tx.params, state, to, actorIdx, sig, dispute, await currentTimestamp(), undefined, apps);
+        assert(violations.length == 0, `unexpected violations: ${violations.map(v => v.reason)}`);
+        const updates = await client.progress(tx.params, state, to, actorIdx, sig);
+        updates[0].phase.should.equal(DisputePhase.FORCEEXEC);
+        state = to;
+      }
+      state.isFinal.should.be.true;
+      tx.state = state;
+    });
+
+    it("conclude with the winner's outcome", async () => {
+      await advanceBlockTime(timeout + 1);
+      await client.conclude(tx.params, tx.state);
+      const holdings = await Promise.all(parts.map(p => ah.holdings.call(fundingID(tx.state.channelID, p))));
+      holdings[0].toString().should.equal(ether(3).toString());
+      holdings[1].toString().should.equal("0");
+    });
+  });
+});
@@ -0,0 +1,156 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assert, should } from "chai";
+should();
+const truffleAssert = require('truffle-assertions');
+import Web3 from "web3";
+declare const web3: Web3;
+import {
+  AdjudicatorContract,
+  AdjudicatorInstance,
+  TrivialAppContract,
+  AssetHolderETHContract,
+  AssetHolderETHInstance,
+} from "../../types/truffle-contracts";
+import { Transaction, Authorization } from "./Channel";
+import { ether, sign, hash } from "../lib/web3";
+import { fundingID, advanceBlockTime, describeWithBlockRevert } from "../lib/test";
+import {
+  domain,
+  stateTypedData,
+  authorizationTypedData,
+  typedDataHash,
+} from "../lib/eip712";
+import { PrivateKeySigner } from "../lib/signer";
+
+const Adjudicator = artifacts.require<AdjudicatorContract>("Adjudicator");
+const TrivialApp = artifacts.require<TrivialAppContract>("TrivialApp");
+const AssetHolderETH = artifacts.require<AssetHolderETHContract>("AssetHolderETH");
+
+contract("TypedData", async (accounts) => {
+  let adj: AdjudicatorInstance;
+  let ah: AssetHolderETHInstance;
+  let app = "";
+  // Ganache does not implement `eth_signTypedData_v4`, so the participants
+  // sign the typed data with local keys.
+  const signers = [0, 1].map(() => new PrivateKeySigner(web3.eth.accounts.create().privateKey));
+  const parts = signers.map(signer => signer.address);
+  const balance = [ether(1), ether(2)];
+  const timeout = 60;
+  // Ganache's CHAINID opcode returns 1 independently of `eth_chainId`.
+  const chainId = 1;
+
+  async function signState(tx: Transaction, verifyingContract: string) {
+    const data = stateTypedData(tx.state, domain(verifyingContract, chainId));
+    tx.sigs = await Promise.all(signers.map(signer => signer.signTypedData(data)));
+  }
+
+  function newTransaction(version: string): Transaction {
+    let tx = new Transaction(parts, balance, timeout, "1", ah.address, app);
+    tx.state.version = version;
+    return tx;
+  }
+
+  before(async () => {
+    adj = await Adjudicator.new();
+    app = (await TrivialApp.new()).address;
+    ah = await AssetHolderETH.new(adj.address);
+  });
+
+  describe("typed data", () => {
+    it("state payload", async () => {
+      const tx = newTransaction("1");
+      const data = stateTypedData(tx.state, domain(adj.address, 5));
+      data.primaryType.should.equal("State");
+      data.domain.verifyingContract.should.equal(adj.address);
+      data.domain.chainId.should.equal(5);
+      data.message.version.should.equal("1");
+      data.types.should.have.all.keys("EIP712Domain", "State", "Allocation", "SubAlloc");
+    });
+
+    it("digest depends on domain", async () => {
+      const tx = newTransaction("1");
+      const digest = typedDataHash(stateTypedData(tx.state, domain(adj.address, chainId)));
+      digest.should.not.equal(typedDataHash(stateTypedData(tx.state, domain(ah.address, chainId))));
+      digest.should.not.equal(typedDataHash(stateTypedData(tx.state, domain(adj.address, chainId + 1))));
+    });
+  });
+
+  describeWithBlockRevert("Adjudicator", () => {
+    it("register with typed signatures", async () => {
+      let tx = newTransaction("1");
+      await signState(tx, adj.address);
+      await adj.register(tx.params.serialize(), tx.state.serialize(), tx.sigs);
+    });
+
+    it("register with typed signatures for another contract fails", async () => {
+      let tx = newTransaction("2");
+      await signState(tx, ah.address);
+      await truffleAssert.reverts(
+        adj.register(tx.params.serialize(), tx.state.serialize(), tx.sigs),
+        "invalid signature",
+      );
+    });
+
+    it("progress with typed signature", async () => {
+      await advanceBlockTime(timeout + 1);
+      const txOld = newTransaction("1");
+      let tx = newTransaction("2");
+      await signState(tx, adj.address);
+      await adj.progress(tx.params.serialize(), txOld.state.serialize(), tx.state.serialize(), 1, tx.sigs[1]);
+    });
+
+    it("concludeFinal with mixed signatures", async () => {
+      // The first participant is a node account that signs with `eth_sign`.
+      let tx = new Transaction([accounts[1], parts[1]], balance, timeout, "2", ah.address, app);
+      tx.state.isFinal = true;
+      const data = stateTypedData(tx.state, domain(adj.address, chainId));
+      tx.sigs = [await sign(tx.state.encode(), accounts[1]), await signers[1].signTypedData(data)];
+      await adj.concludeFinal(tx.params.serialize(), tx.state.serialize(), tx.sigs);
+    });
+  });
+
+  describeWithBlockRevert("AssetHolder", () => {
+    const channelID = hash("channel");
+    const adjAccount = accounts[9];
+    const receiver = accounts[3];
+    let holder: AssetHolderETHInstance;
+
+    before(async () => {
+      holder = await AssetHolderETH.new(adjAccount);
+      const fid = fundingID(channelID, parts[0]);
+      await holder.deposit(fid, ether(1), { value: ether(1), from: accounts[1] });
+      await holder.setOutcome(channelID, [parts[0]], [ether(1)], { from: adjAccount });
+    });
+
+    it("withdraw with typed signature for another contract fails", async () => {
+      const auth = new Authorization(channelID, parts[0], receiver, ether(1).toString());
+      const data = authorizationTypedData(auth, domain(adj.address, chainId));
+      await truffleAssert.reverts(
+        holder.withdraw(auth, await signers[0].signTypedData(data), { from: accounts[5] }),
+        "signature verification failed",
+      );
+    });
+
+    it("withdraw with typed signature", async () => {
+      const balanceBefore = web3.utils.toBN(await web3.eth.getBalance(receiver));
+      const auth = new Authorization(channelID, parts[0], receiver, ether(1).toString());
+      const data = authorizationTypedData(auth, domain(holder.address, chainId));
+      await holder.withdraw(auth, await signers[0].signTypedData(data), { from: accounts[5] });
+      const balanceAfter = web3.utils.toBN(await web3.eth.getBalance(receiver));
+      assert(balanceAfter.eq(balanceBefore.add(ether(1))), "wrong receiver balance");
+    });
+  });
+});
@@ -0,0 +1,244 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assert, should } from "chai";
+should();
+const truffleAssert = require('truffle-assertions');
+import {
+  AdjudicatorContract,
+  TrivialAppContract,
+  AssetHolderETHContract,
+} from "../../types/truffle-contracts";
+import { Transaction, SubAlloc, State } from "./Channel";
+import { ether, hash, currentTimestamp } from "../lib/web3";
+import { advanceBlockTime, describeWithBlockRevert } from "../lib/test";
+import { AdjudicatorClient, Dispute } from "../lib/adjudicator";
+import {
+  Violation,
+  checkRegister,
+  checkProgress,
+  checkConclude,
+  checkConcludeFinal,
+} from "../lib/validator";
+
+const Adjudicator = artifacts.require<AdjudicatorContract>("Adjudicator");
+const TrivialApp = artifacts.require<TrivialAppContract>("TrivialApp");
+const AssetHolderETH = artifacts.require<AssetHolderETHContract>("AssetHolderETH");
+
+contract("Validator", async (accounts) => {
+  let client: AdjudicatorClient;
+  let app = "";
+  let asset = "";
+  const parts = [accounts[1], accounts[2]];
+  const balance = [ether(1), ether(2)];
+  const timeout = 60;
+  const nonce = "0xB0B0FACE";
+
+  function newTransaction(version: string): Transaction {
+    let tx = new Transaction(parts, balance, timeout, nonce, asset, app);
+    tx.state.version = version;
+    return tx;
+  }
+
+  async function dispute(tx: Transaction): Promise<Dispute> {
+    return client.dispute(tx.params.channelID());
+  }
+
+  // assertAgrees asserts that the transaction reverts with the reason of the
+  // first violation or succeeds if there are no violations.
+  async function assertAgrees(violations: Violation[], res: Promise<any>) {
+    if (violations.length == 0) {
+      await res;
+    } else {
+      await truffleAssert.reverts(res, violations[0].reason);
+    }
+  }
+
+  before(async () => {
+    const adj = await Adjudicator.new();
+    client = new AdjudicatorClient(adj, accounts[0]);
+    app = (await TrivialApp.new()).address;
+    asset = (await AssetHolderETH.new(adj.address)).address;
+  });
+
+  describeWithBlockRevert("register", () => {
+    const tests = [
+      {
+        prepare: async (tx: Transaction) => { tx.state.channelID = hash("wrongChannelID"); await tx.sign(parts) },
+        desc: "invalid channelID",
+        reason: "invalid params",
+      },
+      {
+        prepare: async (tx: Transaction) => { await tx.sign([parts[0]]) },
+        desc: "wrong number of signatures",
+        reason: "signatures length mismatch",
+      },
+      {
+        prepare: async (tx: Transaction) => { await tx.sign([parts[0], parts[0]]) },
+        desc: "invalid signature",
+        reason: "invalid signature",
+      },
+      {
+        prepare: async (tx: Transaction) => {
+          await tx.sign(parts);
+          tx.sigs[1] = tx.sigs[1].slice(0, 130) + "00";
+        },
+        desc: "malformed signature",
+        reason: "ECDSA: invalid signature 'v' value",
+      },
+      {
+        prepare: async (tx: Transaction) => { await tx.sign(parts) },
+        desc: "valid state",
+        reason: undefined,
+      },
+      {
+        prepare: async (tx: Transaction) => { await tx.sign(parts) },
+        desc: "same version twice",
+        reason: "invalid version",
+      },
+      {
+        prepare: async (tx: Transaction) => {
+          tx.state.version = "3";
+          await tx.sign(parts);
+          await advanceBlockTime(timeout + 10);
+        },
+        desc: "refutation after timeout",
+        reason: "refutation timeout passed",
+      },
+    ]
+
+    tests.forEach(test => {
+      it(test.desc, async () => {
+        let tx = newTransaction("2");
+        await test.prepare(tx);
+        const violations = checkRegister(tx.params, tx.state, tx.sigs, await dispute(tx), await currentTimestamp());
+        if (test.reason === undefined) {
+          assert(violations.length == 0, `unexpected violations: ${violations.map(v => v.detail)}`);
+        } else {
+          assert(violations.length > 0 && violations[0].reason == test.reason, "wrong violation");
+        }
+        await assertAgrees(violations, client.register(tx.params, tx.state, tx.sigs));
+      });
+    });
+  });
+
+  describeWithBlockRevert("progress", () => {
+    const oldState = () => newTransaction("2").state;
+
+    before(async () => {
+      let tx = newTransaction("2");
+      await tx.sign(parts);
+      await client.register(tx.params, tx.state, tx.sigs);
+    });
+
+    async function check(tx: Transaction, stateOld: State, actorIdx: number): Promise<Violation[]> {
+      return checkProgress(tx.params, stateOld, tx.state, actorIdx, tx.sigs[0], await dispute(tx), await currentTimestamp());
+    }
+
+    it("progress before timeout", async () => {
+      let tx = newTransaction("3");
+      await tx.sign(parts);
+      const violations = await check(tx, oldState(), 0);
+      assert(violations[0].reason == "timeout not passed", "wrong violation");
+      await assertAgrees(violations, client.progress(tx.params, oldState(), tx.state, 0, tx.sigs[0]));
+    });
+
+    it("progress with mismatching balances", async () => {
+      await advanceBlockTime(timeout + 1);
+      let tx = newTransaction("3");
+      tx.state.outcome.balances[0][0] = "1";
+      await tx.sign(parts);
+      const violations = await check(tx, oldState(), 0);
+      assert(violations[0].reason == "sum of balances mismatch", "wrong violation");
+      await assertAgrees(violations, client.progress(tx.params, oldState(), tx.state, 0, tx.sigs[0]));
+    });
+
+    it("progress with wrong version", async () => {
+      let tx = newTransaction("4");
+      await tx.sign(parts);
+      const violations = await check(tx, oldState(), 0);
+      assert(violations[0].reason == "version must increment by one", "wrong violation");
+      await assertAgrees(violations, client.progress(tx.params, oldState(), tx.state, 0, tx.sigs[0]));
+    });
+
+    it("progress with valid state", async () => {
+      let tx = newTransaction("3");
+      await tx.sign(parts);
+      const violations = await check(tx, oldState(), 0);
+      assert(violations.length == 0, `unexpected violations: ${violations.map(v => v.detail)}`);
+      await assertAgrees(violations, client.progress(tx.params, oldState(), tx.state, 0, tx.sigs[0]));
+    });
+  });
+
+  describeWithBlockRevert("conclude and concludeFinal", () => {
+    let tx: Transaction;
+
+    before(async () => {
+      tx = newTransaction("2");
+      tx.state.outcome.locked = [new SubAlloc(hash(0), [])];
+      await tx.sign(parts);
+      await client.register(tx.params, tx.state, tx.sigs);
+    });
+
+    async function disputes(): Promise<Map<string, Dispute>> {
+      return new Map([[tx.state.channelID, await dispute(tx)]]);
+    }
+
+    it("conclude with missing substates", async () => {
+      await advanceBlockTime(2 * timeout + 1);
+      const violations = checkConclude(tx.params, tx.state, [], await disputes(), await currentTimestamp());
+      assert(violations.length == 1, "wrong number of violations");
+      assert(violations[0].reason == "invalid opcode", "wrong violation");
+      await truffleAssert.fails(client.conclude(tx.params, tx.state, []), truffleAssert.ErrorType.INVALID_OPCODE);
+    });
+
+    it("conclude reports a sub-channel of several paths once", async () => {
+      await advanceBlockTime(2 * timeout + 1);
+      // The unregistered sub-channel locks funds in itself, so it is reached
+      // through two paths of the tree.
+      let sub = newTransaction("1");
+      sub.state.channelID = hash(0);
+      sub.state.outcome.locked = [new SubAlloc(hash(0), [])];
+      const violations = checkConclude(tx.params, tx.state, [sub.state, sub.state], await disputes(), await currentTimestamp());
+      assert(violations.filter(v => v.reason == "not registered").length == 1, "violation reported twice");
+      await assertAgrees(violations, client.conclude(tx.params, tx.state, [sub.state, sub.state]));
+    });
+
+    it("concludeFinal with non-final state", async () => {
+      let txFinal = newTransaction("3");
+      await txFinal.sign(parts);
+      const violations = checkConcludeFinal(txFinal.params, txFinal.state, txFinal.sigs, await dispute(txFinal));
+      assert(violations[0].reason == "state not final", "wrong violation");
+      await assertAgrees(violations, client.concludeFinal(txFinal.params, txFinal.state, txFinal.sigs));
+    });
+
+    it("concludeFinal with final state", async () => {
+      let txFinal = newTransaction("3");
+      txFinal.state.isFinal = true;
+      await txFinal.sign(parts);
+      const violations = checkConcludeFinal(txFinal.params, txFinal.state, txFinal.sigs, await dispute(txFinal));
+      assert(violations.length == 0, `unexpected violations: ${violations.map(v => v.detail)}`);
+      await assertAgrees(violations, client.concludeFinal(txFinal.params, txFinal.state, txFinal.sigs));
+    });
+
+    it("concludeFinal on concluded channel", async () => {
+      let txFinal = newTransaction("4");
+      txFinal.state.isFinal = true;
+      await txFinal.sign(parts);
+      const violations = checkConcludeFinal(txFinal.params, txFinal.state, txFinal.sigs, await dispute(txFinal));
+      assert(violations[0].reason == "channel already concluded", "wrong violation");
+      await assertAgrees(violations, client.concludeFinal(txFinal.params, txFinal.state, txFinal.sigs));
+    });
+  });
+});
@@ -0,0 +1,163 @@
+// Copyright 2020 - See NOTICE file for copyright holders.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assert, should } from "chai";
+should();
+import Web3 from "web3";
+declare const web3: Web3;
+import {
+  AdjudicatorContract,
+  TrivialAppContract,
+  AssetHolderETHContract,
+} from "../../types/truffle-contracts";
+import { DisputePhase, Transaction } from "./Channel";
+import { ether } from "../lib/web3";
+import { advanceBlockTime, itWithBlockRevert } from "../lib/test";
+import { AdjudicatorClient, ChannelUpdate } from "../lib/adjudicator";
+import { Watchtower } from "../lib/watchtower";
+
+const Adjudicator = artifacts.require<AdjudicatorContract>("Adjudicator");
+const TrivialApp = artifacts.require<TrivialAppContract>("TrivialApp");
+const AssetHolderETH = artifacts.require<AssetHolderETHContract>("AssetHolderETH");
+
+contract("Watchtower", async (accounts) => {
+  let client: AdjudicatorClient;
+  let app = "";
+  let asset = "";
+  const parts = [accounts[1], accounts[2]];
+  const balance = [ether(1), ether(2)];
+  const timeout = 60;
+  const nonce = "0xB0B0FACE";
+
+  async function signedTransaction(version: string): Promise<Transaction> {
+    let tx = new Transaction(parts, balance, timeout, nonce, asset, app);
+    tx.state.version = version;
+    await tx.sign(parts);
+    return tx;
+  }
+
+  async function newWatchtower(): Promise<Watchtower> {
+    // The tower uses its own account to not interfere with the participants.
+    const towerClient = new AdjudicatorClient(client.adj, accounts[3]);
+    return new Watchtower(towerClient, await web3.eth.getBlockNumber());
+  }
+
+  async function assertRegisteredVersion(channelID: string, version: string) {
+    const dispute = await client.dispute(channelID);
+    assert(dispute.version == version, `registered version ${dispute.version}, expected ${version}`);
+  }
+
+  before(async () => {
+    const adj = await Adjudicator.new();
+    client = new AdjudicatorClient(adj, accounts[0]);
+    app = (await TrivialApp.new()).address;
+    asset = (await AssetHolderETH.new(adj.address)).address;
+  });
+
+  itWithBlockRevert("refutes stale registration", async () => {
+    const tower = await newWatchtower();
+    const newest = await signedTransaction("5");
+    await tower.watch(newest.params, newest.state, newest.sigs);
+
+    const stale = await signedTransaction("2");
+    await client.register(stale.params, stale.state, stale.sigs);
+    const refutations = await tower.poll();
+    assert(refutations.length == 1, "wrong number of refutations");
+    assert(refutations[0].version == "5", "wrong refutation version");
+    assert(refutations[0].phase == DisputePhase.DISPUTE, "wrong refutation phase");
+    await assertRegisteredVersion(newest.params.channelID(), "5");
+
+    // The refutation itself must not trigger another refutation.
+    assert((await tower.poll()).length == 0, "refuted twice");
+  });
+
+  itWithBlockRevert("retries failed refutation", async () => {
+    const tower = await newWatchtower();
+    const newest = await signedTransaction("5");
+    await tower.watch(newest.params, newest.state, newest.sigs);
+    const register = tower.client.register;
+    tower.client.register = () => Promise.reject(new Error("nonce too low"));
+
+    const stale = await signedTransaction("2");
+    await client.register(stale.params, stale.state, stale.sigs);
+    try {
+      await tower.poll();
+      assert.fail("poll succeeded");
+    } catch (err) {
+      err.message.should.equal("nonce too low");
+    }
+    await assertRegisteredVersion(newest.params.channelID(), "2");
+
+    tower.client.register = register;
+    const refutations = await tower.poll();
+    assert(refutations.length == 1, "refutation not retried");
+    await assertRegisteredVersion(newest.params.channelID(), "5");
+  });
+
+  itWithBlockRevert("ignores older states", async () => {
+    const tower = await newWatchtower();
+    const newest = await signedTransaction("5");
+    await tower.watch(newest.params, newest.state, newest.sigs);
+    const older = await signedTransaction("3");
+    await tower.watch(older.params, older.state, older.sigs);
+
+    const stale = await signedTransaction("4");
+    await client.register(stale.params, stale.state, stale.sigs);
+    await tower.poll();
+    await assertRegisteredVersion(newest.params.channelID(), "5");
+  });
+
+  itWithBlockRevert("does not refute up-to-date registration", async () => {
+    const tower = await newWatchtower();
+    const newest = await signedTransaction("5");
+    await tower.watch(newest.params, newest.state, newest.sigs);
+
+    await client.register(newest.params, newest.state, newest.sigs);
+    assert((await tower.poll()).length == 0, "unexpected refutation");
+  });
+
+  itWithBlockRevert("does not refute after timeout", async () => {
+    const tower = await newWatchtower();
+    const newest = await signedTransaction("5");
+    await tower.watch(newest.params, newest.state, newest.sigs);
+
+    const stale = await signedTransaction("2");
+    await client.register(stale.params, stale.state, stale.sigs);
+    await advanceBlockTime(timeout + 1);
+    assert((await tower.poll()).length == 0, "unexpected refutation");
+    await assertRegisteredVersion(newest.params.channelID(), "2");
+  });
+
+  itWithBlockRevert("refutes while running", async () => {
+    const tower = await newWatchtower();
+    const newest = await signedTransaction("5");
+    await tower.watch(newest.params, newest.state, newest.sigs);
+    let onError = (_: Error) => {};
+    const refuted = new Promise<ChannelUpdate>((resolve, reject) => {
+      tower.once("refuted", resolve);
+      onError = reject;
+    });
+    tower.start(100, onError);
+
+    try {
+      const stale = await signedTransaction("2");
+      await client.register(stale.params, stale.state, stale.sigs);
+      const refutation = await refuted;
+      assert(refutation.version == "5", "wrong refutation version");
+    } finally {
+      tower.stop();
+    }
+    await assertRegisteredVersion(newest.params.channelID(), "5");
+  });
+});